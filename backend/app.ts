@@ -0,0 +1,159 @@
+/**
+ * Assembles the HTTP app: middleware, error handling and every route.
+ *
+ * Kept apart from `index.ts` (which starts the server) so tools such as
+ * `scripts/generate-client.ts` can build the same router without serving.
+ *
+ * Access is configured from the environment:
+ *
+ *   AUTH_DISABLED         `true` to serve without API keys (local use only)
+ *   CORS_ORIGINS          comma-separated allowed origins (default `*`)
+ *   API_RATE_LIMIT        requests per minute per key (default 60)
+ *   API_DAILY_LLM_QUOTA   LLM calls per key per UTC day (default: none)
+ *
+ * Per-key limits set with `scripts/api-keys.ts` take precedence.
+ *
+ * Usage:
+ * ```ts
+ * const jobs = new JobQueue(new JobStore());
+ * const router = createApp(
+ *   new DocStore(),
+ *   new DocSyncRegistry(),
+ *   new ApiKeyStore(),
+ *   jobs,
+ * );
+ * jobs.start();
+ * Bun.serve({ port: 3000, fetch: (req) => router.handle(req) });
+ * ```
+ */
+
+import { Router, currentRequest, errorResponse } from "./router";
+import {
+  apiKeyAuth,
+  cors,
+  quotaExceededMessage,
+  requestApiKey,
+  tooManyRequests,
+} from "./router/middleware";
+import { buildOpenApi, type OpenApiDocument } from "./router/openapi";
+import { registerDocsRoutes } from "./router/docs";
+import { registerAnalyzeRoutes } from "./router/analyze";
+import { registerJobsRoutes } from "./router/jobs";
+import { msUntilQuotaReset, type ApiKeyStore } from "./db/apikeys";
+import type { DocStore } from "./db/docstore";
+import type { DocSyncRegistry } from "./services/doc-sync";
+import { currentJob, type JobQueue } from "./services/jobs";
+import { LLMError, LLMQuotaError, onLLMCall } from "./llm";
+import { StructuredOutputError } from "./services/structured-output";
+
+export const API_INFO = {
+  title: "llm-docx",
+  version: "1.0.0",
+  description: "Document analysis, review and chat over .docx documents.",
+};
+
+/** Routes callable without an API key. */
+const PUBLIC_ROUTES = ["/openapi.json"];
+
+/** Routes that call the model, and so spend a key's daily quota. */
+const LLM_ROUTE =
+  /^\/analyze\/(criticize|suggest|summarize|chat)(\/stream|\/jobs)?$/;
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function envLimit(name: string): number | undefined {
+  const value = Number(readEnv(name));
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+export function createApp(
+  docStore: DocStore,
+  syncRegistry: DocSyncRegistry,
+  keyStore: ApiKeyStore,
+  jobs: JobQueue,
+): Router {
+  const router = new Router();
+
+  // ─── Middleware ────────────────────────────────────────────────────
+
+  router.use(
+    cors({
+      origins: readEnv("CORS_ORIGINS")
+        ?.split(",")
+        .map((o) => o.trim()),
+      exposeHeaders: [
+        "Content-Disposition",
+        "X-Skipped-Annotations",
+        "Retry-After",
+      ],
+    }),
+  );
+
+  const authEnabled = readEnv("AUTH_DISABLED") !== "true";
+  if (authEnabled) {
+    const dailyQuota = envLimit("API_DAILY_LLM_QUOTA");
+    router.use(
+      apiKeyAuth(keyStore, {
+        publicRoutes: PUBLIC_ROUTES,
+        rateLimit: envLimit("API_RATE_LIMIT"),
+        dailyQuota,
+        usesLLM: (route) => LLM_ROUTE.test(route),
+        // Each queued or running job will make at least one more call.
+        pendingCalls: (keyId) => jobs.unfinished(keyId),
+      }),
+    );
+    // Charge each model call to the key of the job or request making it,
+    // refusing it once the key's quota is used up. The job comes first:
+    // one queued during a request still sees it.
+    onLLMCall(() => {
+      const keyId =
+        currentJob()?.apiKeyId ?? requestApiKey(currentRequest())?.id;
+      const key = keyId ? keyStore.get(keyId) : null;
+      if (!key) return;
+      const quota = key.dailyQuota ?? dailyQuota;
+      if (!keyStore.tryRecordCall(key.id, quota)) {
+        throw new LLMQuotaError(
+          quotaExceededMessage(quota!),
+          msUntilQuotaReset(),
+        );
+      }
+    });
+  } else {
+    console.warn("AUTH_DISABLED is set: serving without API keys.");
+  }
+
+  // A failing or unparseable model is an upstream failure, not ours.
+  router.onError((err, ctx) => {
+    if (err instanceof LLMQuotaError) {
+      return tooManyRequests(ctx, err.message, err.retryAfterMs);
+    }
+    if (err instanceof LLMError || err instanceof StructuredOutputError) {
+      console.error(`LLM failure (${ctx.requestId}):`, err);
+      return errorResponse(ctx, 502, err.message);
+    }
+  });
+
+  // ─── Routes ────────────────────────────────────────────────────────
+
+  registerDocsRoutes(router, docStore, syncRegistry);
+  registerAnalyzeRoutes(router, docStore, syncRegistry, jobs);
+  registerJobsRoutes(router, jobs);
+
+  // Built on first request, once every route is registered.
+  let openApi: OpenApiDocument | null = null;
+  router.get(
+    "/openapi.json",
+    { summary: "This API's OpenAPI description.", operationId: "getOpenApi" },
+    () => {
+      openApi ??= buildOpenApi(router.listRoutes(), API_INFO, {
+        auth: authEnabled ? { publicRoutes: PUBLIC_ROUTES } : undefined,
+      });
+      return Response.json(openApi);
+    },
+  );
+
+  return router;
+}
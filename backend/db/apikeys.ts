@@ -0,0 +1,243 @@
+/**
+ * API keys and their daily LLM usage, backed by `bun:sqlite`.
+ *
+ * - Shares the SQLite file in `backend/.data/` with `DocStore`.
+ * - Only a SHA-256 hash of each key is stored; the key itself is shown
+ *   once, when it's created. Keys are random 256-bit tokens, so a plain
+ *   hash is enough to make a leaked database useless for calling the API.
+ * - Each key may carry its own request rate limit and daily LLM-call
+ *   quota; `null` means "use the server default".
+ * - Usage is counted per key and UTC day, so quotas survive restarts.
+ *
+ * Usage:
+ * ```ts
+ * const keys = new ApiKeyStore();
+ * const { key, secret } = keys.create({ name: "frontend", dailyQuota: 500 });
+ * keys.verify(secret); // → key, or null if unknown / revoked
+ * keys.recordCalls(key.id);
+ * keys.usageToday(key.id); // → 1
+ * keys.tryRecordCall(key.id, 1); // → false: today's quota is used up
+ * ```
+ */
+
+import { Database } from "bun:sqlite";
+import { createHash, randomBytes } from "crypto";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { DATA_DB_PATH } from "./docstore";
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Marks our keys so they're recognisable in configs and logs. */
+const KEY_PREFIX = "ldx_";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** The first characters of the key, to tell keys apart in listings. */
+  hint: string;
+  /** Requests per minute, or `null` for the server default. */
+  rateLimit: number | null;
+  /** LLM calls per UTC day, or `null` for the server default. */
+  dailyQuota: number | null;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  rateLimit?: number | null;
+  dailyQuota?: number | null;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  hint: string;
+  rate_limit: number | null;
+  daily_quota: number | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+// ─── ApiKeyStore ─────────────────────────────────────────────────────
+
+export class ApiKeyStore {
+  private path: string;
+  private db: Database | null = null;
+
+  /**
+   * @param path  SQLite file path. Pass `":memory:"` for a throwaway store.
+   */
+  constructor(path = DATA_DB_PATH) {
+    this.path = path;
+  }
+
+  // ── Connection ──────────────────────────────────────────────────
+
+  /** Lazily open the database and make sure the schema exists. */
+  private connect(): Database {
+    if (this.db) return this.db;
+
+    if (this.path !== ":memory:") {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+
+    const db = new Database(this.path, { create: true, strict: true });
+    db.run("PRAGMA journal_mode = WAL;");
+    db.run(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id          TEXT PRIMARY KEY,
+        name        TEXT NOT NULL,
+        key_hash    TEXT NOT NULL UNIQUE,
+        hint        TEXT NOT NULL,
+        rate_limit  INTEGER,
+        daily_quota INTEGER,
+        created_at  TEXT NOT NULL,
+        revoked_at  TEXT
+      )
+    `);
+    db.run(`
+      CREATE TABLE IF NOT EXISTS api_key_usage (
+        key_id    TEXT NOT NULL,
+        day       TEXT NOT NULL,
+        llm_calls INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (key_id, day)
+      )
+    `);
+
+    this.db = db;
+    return db;
+  }
+
+  // ── Public API ──────────────────────────────────────────────────
+
+  /**
+   * Create a key. The returned `secret` is the only copy of the key
+   * itself; hand it to the client now.
+   */
+  create(input: ApiKeyInput): { key: ApiKey; secret: string } {
+    const id = crypto.randomUUID();
+    const secret = KEY_PREFIX + randomBytes(32).toString("base64url");
+
+    this.connect()
+      .query(
+        `INSERT INTO api_keys (id, name, key_hash, hint, rate_limit, daily_quota, created_at)
+         VALUES ($id, $name, $hash, $hint, $rateLimit, $dailyQuota, $now)`,
+      )
+      .run({
+        id,
+        name: input.name.trim() || "Unnamed",
+        hash: hashKey(secret),
+        hint: secret.slice(0, KEY_PREFIX.length + 6),
+        rateLimit: input.rateLimit ?? null,
+        dailyQuota: input.dailyQuota ?? null,
+        now: new Date().toISOString(),
+      });
+
+    return { key: this.get(id)!, secret };
+  }
+
+  /** The active key matching `secret`, or `null` if unknown or revoked. */
+  verify(secret: string): ApiKey | null {
+    if (!secret.startsWith(KEY_PREFIX)) return null;
+    const row = this.connect()
+      .query<ApiKeyRow, { hash: string }>(
+        "SELECT * FROM api_keys WHERE key_hash = $hash AND revoked_at IS NULL",
+      )
+      .get({ hash: hashKey(secret) });
+    return row ? toKey(row) : null;
+  }
+
+  get(id: string): ApiKey | null {
+    const row = this.connect()
+      .query<ApiKeyRow, { id: string }>("SELECT * FROM api_keys WHERE id = $id")
+      .get({ id });
+    return row ? toKey(row) : null;
+  }
+
+  /** Every key, revoked ones included, oldest first. */
+  list(): ApiKey[] {
+    const rows = this.connect()
+      .query<ApiKeyRow, []>("SELECT * FROM api_keys ORDER BY created_at")
+      .all();
+    return rows.map(toKey);
+  }
+
+  /** @returns `true` if an active key was revoked. */
+  revoke(id: string): boolean {
+    const result = this.connect()
+      .query(
+        "UPDATE api_keys SET revoked_at = $now WHERE id = $id AND revoked_at IS NULL",
+      )
+      .run({ id, now: new Date().toISOString() });
+    return result.changes > 0;
+  }
+
+  /** Count `calls` LLM calls against the key for today. */
+  recordCalls(id: string, calls = 1): void {
+    this.connect()
+      .query(
+        `INSERT INTO api_key_usage (key_id, day, llm_calls) VALUES ($id, $day, $calls)
+         ON CONFLICT (key_id, day) DO UPDATE SET llm_calls = llm_calls + $calls`,
+      )
+      .run({ id, day: utcDay(), calls });
+  }
+
+  /**
+   * Count one LLM call against the key for today, unless it has already
+   * made `quota` calls.
+   *
+   * @returns `false` if the quota is used up; nothing is counted then.
+   */
+  tryRecordCall(id: string, quota?: number): boolean {
+    const db = this.connect();
+    return db.transaction(() => {
+      if (quota !== undefined && this.usageToday(id) >= quota) return false;
+      this.recordCalls(id);
+      return true;
+    })();
+  }
+
+  /** LLM calls the key has made today (UTC). */
+  usageToday(id: string): number {
+    const row = this.connect()
+      .query<{ llm_calls: number }, { id: string; day: string }>(
+        "SELECT llm_calls FROM api_key_usage WHERE key_id = $id AND day = $day",
+      )
+      .get({ id, day: utcDay() });
+    return row?.llm_calls ?? 0;
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function hashKey(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/** Today's date in UTC, e.g. `2025-01-31`; quotas reset at midnight UTC. */
+function utcDay(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/** Milliseconds until daily quotas reset (the next UTC midnight). */
+export function msUntilQuotaReset(now = Date.now()): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight.getTime() - now;
+}
+
+function toKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    hint: row.hint,
+    rateLimit: row.rate_limit,
+    dailyQuota: row.daily_quota,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at,
+  };
+}
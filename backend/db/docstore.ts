@@ -0,0 +1,222 @@
+/**
+ * On-disk document store backed by `bun:sqlite`.
+ *
+ * - DB file lives in `backend/.data/` (gitignored).
+ * - Lazily opens the database and creates the schema on first use.
+ * - Keeps each document's title, text, timestamps, the optional
+ *   structure map from `/docs/import`, and the last `HierarchyMap`
+ *   extracted for it.
+ *
+ * Usage:
+ * ```ts
+ * const store = new DocStore();
+ * const doc = store.create({ title: "Spec", text: "..." });
+ * store.update(doc.id, { text: "new text" });
+ * store.saveHierarchy(doc.id, hierarchy);
+ * ```
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname, resolve } from "path";
+import type { HierarchyMap } from "../services/hierarchy-extractor";
+import type { DocumentStructure } from "../services/docx-import";
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Default SQLite file for all locally persisted state (gitignored). */
+export const DATA_DB_PATH = resolve(
+  import.meta.dir,
+  "../.data/llm-docx.sqlite",
+);
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface DocSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredDoc extends DocSummary {
+  text: string;
+  structure: DocumentStructure | null;
+  /** Hierarchy extracted from the current `text`, or `null` if stale. */
+  hierarchy: HierarchyMap | null;
+}
+
+export interface DocInput {
+  title?: string;
+  text: string;
+  structure?: DocumentStructure | null;
+}
+
+interface DocRow {
+  id: string;
+  title: string;
+  text: string;
+  structure: string | null;
+  hierarchy: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ─── DocStore ────────────────────────────────────────────────────────
+
+export class DocStore {
+  private path: string;
+  private db: Database | null = null;
+
+  /**
+   * @param path  SQLite file path. Pass `":memory:"` for a throwaway store.
+   */
+  constructor(path = DATA_DB_PATH) {
+    this.path = path;
+  }
+
+  // ── Connection ──────────────────────────────────────────────────
+
+  /** Lazily open the database and make sure the schema exists. */
+  private connect(): Database {
+    if (this.db) return this.db;
+
+    if (this.path !== ":memory:") {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+
+    const db = new Database(this.path, { create: true, strict: true });
+    db.run("PRAGMA journal_mode = WAL;");
+    db.run(`
+      CREATE TABLE IF NOT EXISTS docs (
+        id         TEXT PRIMARY KEY,
+        title      TEXT NOT NULL,
+        text       TEXT NOT NULL,
+        structure  TEXT,
+        hierarchy  TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    this.db = db;
+    return db;
+  }
+
+  // ── Public API ──────────────────────────────────────────────────
+
+  /** List every document (without text), most recently updated first. */
+  list(): DocSummary[] {
+    const rows = this.connect()
+      .query<DocRow, []>(
+        "SELECT id, title, created_at, updated_at FROM docs ORDER BY updated_at DESC",
+      )
+      .all();
+    return rows.map(toSummary);
+  }
+
+  /** Fetch a single document, or `null` if it doesn't exist. */
+  get(id: string): StoredDoc | null {
+    const row = this.connect()
+      .query<DocRow, { id: string }>("SELECT * FROM docs WHERE id = $id")
+      .get({ id });
+    return row ? toDoc(row) : null;
+  }
+
+  /** Insert a new document with a generated id. */
+  create(input: DocInput): StoredDoc {
+    const now = new Date().toISOString();
+    const id = crypto.randomUUID();
+
+    this.connect()
+      .query(
+        `INSERT INTO docs (id, title, text, structure, hierarchy, created_at, updated_at)
+         VALUES ($id, $title, $text, $structure, NULL, $now, $now)`,
+      )
+      .run({
+        id,
+        title: input.title?.trim() || "Untitled",
+        text: input.text,
+        structure: input.structure ? JSON.stringify(input.structure) : null,
+        now,
+      });
+
+    return this.get(id)!;
+  }
+
+  /**
+   * Update title, text and/or structure. Changing the text clears the
+   * stored hierarchy since it no longer describes the document.
+   *
+   * @returns The updated document, or `null` if it doesn't exist.
+   */
+  update(id: string, changes: Partial<DocInput>): StoredDoc | null {
+    const current = this.get(id);
+    if (!current) return null;
+
+    const textChanged =
+      changes.text !== undefined && changes.text !== current.text;
+    const structure =
+      changes.structure !== undefined
+        ? changes.structure
+        : textChanged
+          ? null
+          : current.structure;
+
+    this.connect()
+      .query(
+        `UPDATE docs
+         SET title = $title, text = $text, structure = $structure,
+             hierarchy = $hierarchy, updated_at = $now
+         WHERE id = $id`,
+      )
+      .run({
+        id,
+        title: changes.title?.trim() || current.title,
+        text: changes.text ?? current.text,
+        structure: structure ? JSON.stringify(structure) : null,
+        hierarchy:
+          textChanged || !current.hierarchy
+            ? null
+            : JSON.stringify(current.hierarchy),
+        now: new Date().toISOString(),
+      });
+
+    return this.get(id);
+  }
+
+  /** Remember the hierarchy extracted for the document's current text. */
+  saveHierarchy(id: string, hierarchy: HierarchyMap): void {
+    this.connect()
+      .query("UPDATE docs SET hierarchy = $hierarchy WHERE id = $id")
+      .run({ id, hierarchy: JSON.stringify(hierarchy) });
+  }
+
+  /** @returns `true` if a document was deleted. */
+  delete(id: string): boolean {
+    const result = this.connect()
+      .query("DELETE FROM docs WHERE id = $id")
+      .run({ id });
+    return result.changes > 0;
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function toSummary(row: DocRow): DocSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toDoc(row: DocRow): StoredDoc {
+  return {
+    ...toSummary(row),
+    text: row.text,
+    structure: row.structure ? JSON.parse(row.structure) : null,
+    hierarchy: row.hierarchy ? JSON.parse(row.hierarchy) : null,
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * Background jobs and their per-chunk progress, backed by `bun:sqlite`.
+ *
+ * - Shares the SQLite file in `backend/.data/` with `DocStore`.
+ * - A job keeps its kind, the request body it was created from, its
+ *   status, the results of each finished chunk, and the final result or
+ *   error, so everything survives a restart.
+ * - Status changes only go forward (`queued` → `running` → `succeeded` |
+ *   `failed` | `cancelled`); the guarded updates make a late write from
+ *   a cancelled run a no-op.
+ *
+ * Running jobs is `services/jobs.ts`'s business; this is just storage.
+ *
+ * Usage:
+ * ```ts
+ * const jobs = new JobStore();
+ * const job = jobs.create({ kind: "criticize", input: { text } });
+ * jobs.start(job.id);
+ * jobs.saveChunk(job.id, { index: 0, total: 3, results: [...] });
+ * jobs.finish(job.id, "succeeded", { result });
+ * ```
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { DATA_DB_PATH } from "./docstore";
+import type { ChunkProgress } from "../services/progress";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export const JOB_STATUSES = [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+  "cancelled",
+] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/** Statuses a job never leaves. */
+export type FinishedStatus = Extract<
+  JobStatus,
+  "succeeded" | "failed" | "cancelled"
+>;
+
+export interface JobProgress {
+  /** Chunks finished so far. */
+  completed: number;
+  /** Chunks in the run, once the first one has finished. */
+  total: number | null;
+}
+
+export interface JobSummary {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  progress: JobProgress;
+  /** Why the job failed or was cancelled. */
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface Job extends JobSummary {
+  /** The request body the job was created from. */
+  input: unknown;
+  /** Id of the API key that created the job, if any. */
+  apiKeyId: string | null;
+  /** Each finished chunk's results, in chunk order. */
+  chunks: ChunkProgress<unknown>[];
+  /** Set once the job has succeeded. */
+  result: unknown;
+}
+
+export interface JobInput {
+  kind: string;
+  input: unknown;
+  apiKeyId?: string | null;
+}
+
+interface JobRow {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  input: string;
+  api_key_id: string | null;
+  total: number | null;
+  completed: number;
+  result: string | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+// ─── JobStore ────────────────────────────────────────────────────────
+
+export class JobStore {
+  private path: string;
+  private db: Database | null = null;
+
+  /**
+   * @param path  SQLite file path. Pass `":memory:"` for a throwaway store.
+   */
+  constructor(path = DATA_DB_PATH) {
+    this.path = path;
+  }
+
+  // ── Connection ──────────────────────────────────────────────────
+
+  /** Lazily open the database and make sure the schema exists. */
+  private connect(): Database {
+    if (this.db) return this.db;
+
+    if (this.path !== ":memory:") {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+
+    const db = new Database(this.path, { create: true, strict: true });
+    db.run("PRAGMA journal_mode = WAL;");
+    db.run(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id          TEXT PRIMARY KEY,
+        kind        TEXT NOT NULL,
+        status      TEXT NOT NULL,
+        input       TEXT NOT NULL,
+        api_key_id  TEXT,
+        total       INTEGER,
+        result      TEXT,
+        error       TEXT,
+        created_at  TEXT NOT NULL,
+        started_at  TEXT,
+        finished_at TEXT
+      )
+    `);
+    db.run(`
+      CREATE TABLE IF NOT EXISTS job_chunks (
+        job_id  TEXT NOT NULL,
+        idx     INTEGER NOT NULL,
+        results TEXT NOT NULL,
+        PRIMARY KEY (job_id, idx)
+      )
+    `);
+    db.run(
+      "CREATE INDEX IF NOT EXISTS jobs_status ON jobs (status, created_at)",
+    );
+
+    this.db = db;
+    return db;
+  }
+
+  /** `jobs` columns plus the number of finished chunks. */
+  private selectJobs(where: string, suffix = ""): string {
+    return `SELECT jobs.*,
+              (SELECT COUNT(*) FROM job_chunks WHERE job_id = jobs.id) AS completed
+            FROM jobs WHERE ${where} ${suffix}`;
+  }
+
+  // ── Public API ──────────────────────────────────────────────────
+
+  /** Queue a new job. */
+  create(input: JobInput): Job {
+    const id = crypto.randomUUID();
+    this.connect()
+      .query(
+        `INSERT INTO jobs (id, kind, status, input, api_key_id, created_at)
+         VALUES ($id, $kind, 'queued', $input, $apiKeyId, $now)`,
+      )
+      .run({
+        id,
+        kind: input.kind,
+        input: JSON.stringify(input.input ?? null),
+        apiKeyId: input.apiKeyId ?? null,
+        now: new Date().toISOString(),
+      });
+    return this.get(id)!;
+  }
+
+  /** Fetch a job with its chunk results, or `null` if it doesn't exist. */
+  get(id: string): Job | null {
+    const db = this.connect();
+    const row = db
+      .query<JobRow, { id: string }>(this.selectJobs("id = $id"))
+      .get({ id });
+    if (!row) return null;
+
+    const chunks = db
+      .query<{ idx: number; results: string }, { id: string }>(
+        "SELECT idx, results FROM job_chunks WHERE job_id = $id ORDER BY idx",
+      )
+      .all({ id })
+      .map((c) => ({
+        index: c.idx,
+        total: row.total ?? 0,
+        results: JSON.parse(c.results) as unknown[],
+      }));
+    return toJob(row, chunks);
+  }
+
+  /**
+   * Most recent jobs first, without inputs or results. With `apiKeyId`,
+   * only the jobs that key created.
+   */
+  list(options: { apiKeyId?: string; limit?: number } = {}): JobSummary[] {
+    const rows = this.connect()
+      .query<JobRow, { apiKeyId: string | null; limit: number }>(
+        this.selectJobs(
+          "($apiKeyId IS NULL OR api_key_id = $apiKeyId)",
+          "ORDER BY created_at DESC LIMIT $limit",
+        ),
+      )
+      .all({ apiKeyId: options.apiKeyId ?? null, limit: options.limit ?? 50 });
+    return rows.map(toSummary);
+  }
+
+  /** How many of the key's jobs are queued or running. */
+  countUnfinished(apiKeyId: string): number {
+    const row = this.connect()
+      .query<{ count: number }, { apiKeyId: string }>(
+        `SELECT COUNT(*) AS count FROM jobs
+         WHERE api_key_id = $apiKeyId AND status IN ('queued', 'running')`,
+      )
+      .get({ apiKeyId });
+    return row?.count ?? 0;
+  }
+
+  /** Ids of queued jobs, oldest first. */
+  queued(): string[] {
+    return this.connect()
+      .query<{ id: string }, []>(
+        "SELECT id FROM jobs WHERE status = 'queued' ORDER BY created_at",
+      )
+      .all()
+      .map((row) => row.id);
+  }
+
+  /** @returns `true` if the job was queued and is now running. */
+  start(id: string): boolean {
+    const result = this.connect()
+      .query(
+        `UPDATE jobs SET status = 'running', started_at = $now
+         WHERE id = $id AND status = 'queued'`,
+      )
+      .run({ id, now: new Date().toISOString() });
+    return result.changes > 0;
+  }
+
+  /** Record one finished chunk of a running job. */
+  saveChunk(id: string, progress: ChunkProgress<unknown>): void {
+    const db = this.connect();
+    db.transaction(() => {
+      const running = db
+        .query(
+          "UPDATE jobs SET total = $total WHERE id = $id AND status = 'running'",
+        )
+        .run({ id, total: progress.total });
+      if (running.changes === 0) return;
+      db.query(
+        `INSERT OR REPLACE INTO job_chunks (job_id, idx, results)
+         VALUES ($id, $index, $results)`,
+      ).run({
+        id,
+        index: progress.index,
+        results: JSON.stringify(progress.results),
+      });
+    })();
+  }
+
+  /**
+   * Move a queued or running job to a final status.
+   *
+   * @returns `true` if the job was still unfinished.
+   */
+  finish(
+    id: string,
+    status: FinishedStatus,
+    outcome: { result?: unknown; error?: string } = {},
+  ): boolean {
+    const result = this.connect()
+      .query(
+        `UPDATE jobs SET status = $status, result = $result, error = $error,
+                         finished_at = $now
+         WHERE id = $id AND status IN ('queued', 'running')`,
+      )
+      .run({
+        id,
+        status,
+        result:
+          outcome.result === undefined ? null : JSON.stringify(outcome.result),
+        error: outcome.error ?? null,
+        now: new Date().toISOString(),
+      });
+    return result.changes > 0;
+  }
+
+  /**
+   * Put jobs left `running` by a stopped server back in the queue. Their
+   * chunk results are dropped, since the run starts over.
+   *
+   * @returns How many jobs were requeued.
+   */
+  requeueInterrupted(): number {
+    const db = this.connect();
+    return db.transaction(() => {
+      db.run(
+        `DELETE FROM job_chunks
+         WHERE job_id IN (SELECT id FROM jobs WHERE status = 'running')`,
+      );
+      return db
+        .query(
+          `UPDATE jobs SET status = 'queued', total = NULL, started_at = NULL
+           WHERE status = 'running'`,
+        )
+        .run().changes;
+    })();
+  }
+
+  /**
+   * Delete jobs that finished before `before`.
+   *
+   * @returns How many jobs were deleted.
+   */
+  prune(before: Date): number {
+    const db = this.connect();
+    const params = { before: before.toISOString() };
+    return db.transaction(() => {
+      db.query(
+        `DELETE FROM job_chunks WHERE job_id IN
+           (SELECT id FROM jobs WHERE finished_at < $before)`,
+      ).run(params);
+      return db
+        .query("DELETE FROM jobs WHERE finished_at < $before")
+        .run(params).changes;
+    })();
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function toSummary(row: JobRow): JobSummary {
+  return {
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    progress: { completed: row.completed, total: row.total },
+    error: row.error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+function toJob(row: JobRow, chunks: ChunkProgress<unknown>[]): Job {
+  return {
+    ...toSummary(row),
+    input: JSON.parse(row.input),
+    apiKeyId: row.api_key_id,
+    chunks,
+    result: row.result === null ? null : JSON.parse(row.result),
+  };
+}
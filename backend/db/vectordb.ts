@@ -3,7 +3,11 @@
  *
  * - DB files live in `backend/.vectordb/` (gitignored).
  * - Lazily connects on first operation.
- * - Provides simple `insert`, `search`, and `reset` helpers.
+ * - Provides simple `insert`, `search`, `query`, `delete`, and `reset` helpers.
+ * - Keyword (BM25 full-text) and hybrid search over the `text` column;
+ *   hybrid merges vector and keyword rankings by reciprocal rank fusion.
+ * - Can keep a small JSON sidecar next to each table for callers that
+ *   need to persist bookkeeping alongside the vectors.
  * - Optionally accepts an `Embedder` for automatic text → vector conversion.
  *
  * Usage (raw vectors):
@@ -20,12 +24,14 @@
  * const vdb = new VectorDB("chunks", new Embedder());
  * await vdb.insertText([{ text: "hello" }]);
  * const results = await vdb.searchText("hello", 5);
+ * const exact = await vdb.searchText("clause 4.2", 5, { mode: "hybrid" });
  * ```
  */
 
 import * as lancedb from "@lancedb/lancedb";
 import type { Table, Connection } from "@lancedb/lancedb";
 import { resolve } from "path";
+import { unlink } from "fs/promises";
 import { Embedder } from "./embedder";
 
 // ─── Constants ───────────────────────────────────────────────────────
@@ -33,6 +39,20 @@ import { Embedder } from "./embedder";
 /** Root directory for all LanceDB data (gitignored). */
 const DB_DIR = resolve(import.meta.dir, "../.vectordb");
 
+/** RRF damping constant: a result at rank r contributes 1 / (k + r). */
+const RRF_K = 60;
+/** Hybrid search fuses this many times `limit` candidates from each side. */
+const HYBRID_CANDIDATE_FACTOR = 3;
+/** The BM25 score that keyword search reports as similarity 0.5. */
+const BM25_HALF_SCORE = 2;
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** Quote a string literal for use in a LanceDB SQL filter. */
+export function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
 // ─── Types ───────────────────────────────────────────────────────────
 
 export interface VectorRecord {
@@ -46,11 +66,79 @@ export interface TextRecord {
   [key: string]: unknown;
 }
 
+/**
+ * How `searchText` ranks results:
+ *  - `vector`   embedding nearest-neighbour (default)
+ *  - `keyword`  BM25 full-text search over `text`
+ *  - `hybrid`   both, merged by reciprocal rank fusion
+ */
+export type SearchMode = "vector" | "keyword" | "hybrid";
+
+export const SEARCH_MODES: SearchMode[] = ["vector", "keyword", "hybrid"];
+
+export interface SearchOptions {
+  /** Ranking to use (default `"vector"`). */
+  mode?: SearchMode;
+  /** SQL-style filter applied before ranking (e.g. `"sectionTitle = 'Scope'"`). */
+  where?: string;
+  /**
+   * Drop results whose `similarity` is below this (0–1); see
+   * `SearchResult.similarity` for what it measures in each mode. Applied
+   * before `limit`, so a cutoff doesn't hide matches ranked below the
+   * ones it drops.
+   */
+  minSimilarity?: number;
+}
+
 export interface SearchResult<T = Record<string, unknown>> {
   /** The original record fields. */
   record: T;
-  /** L2 distance from the query vector (lower = closer). */
-  _distance: number;
+  /**
+   * Relevance from 0 to 1 (higher = closer):
+   *  - vector and hybrid search: cosine similarity of the embeddings
+   *  - keyword search: the BM25 score mapped to `score / (score + 2)`,
+   *    so it doesn't depend on the other matches but isn't comparable
+   *    with cosine similarity either
+   */
+  similarity: number;
+  /** Squared L2 distance from the query vector (lower = closer); vector matches only. */
+  _distance?: number;
+  /** BM25 relevance (higher = better); keyword matches only. */
+  _score?: number;
+  /** Reciprocal-rank-fusion score (higher = better); hybrid search only. */
+  _rrfScore?: number;
+}
+
+/**
+ * Cosine similarity from LanceDB's squared L2 distance. For unit-length
+ * vectors (as `Embedder` produces) ‖a − b‖² = 2 − 2·cos, so cos = 1 − d/2.
+ * Negative similarities are clamped to 0.
+ */
+function distanceToSimilarity(distance: number): number {
+  return Math.min(1, Math.max(0, 1 - distance / 2));
+}
+
+/** Keyword similarity from a BM25 score; see `SearchResult.similarity`. */
+function scoreToSimilarity(score: number): number {
+  return score > 0 ? score / (score + BM25_HALF_SCORE) : 0;
+}
+
+function squaredDistance(a: ArrayLike<number>, b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < b.length; i++) sum += ((a[i] ?? 0) - b[i]!) ** 2;
+  return sum;
+}
+
+/** Split LanceDB's score columns off a result row. */
+function toSearchResult<T>(
+  row: Record<string, unknown>,
+  similarity: number,
+): SearchResult<T> {
+  const { _distance, _score, _rowid, ...rest } = row;
+  const result: SearchResult<T> = { record: rest as T, similarity };
+  if (typeof _distance === "number") result._distance = _distance;
+  if (typeof _score === "number") result._score = _score;
+  return result;
 }
 
 // ─── VectorDB ────────────────────────────────────────────────────────
@@ -60,6 +148,8 @@ export class VectorDB {
   private db: Connection | null = null;
   private table: Table | null = null;
   private embedder: Embedder | null;
+  /** Resolves once the `text` column has a full-text index. */
+  private ftsIndex: Promise<void> | null = null;
 
   /**
    * @param tableName  Name of the LanceDB table / collection.
@@ -119,24 +209,16 @@ export class VectorDB {
   async insert(records: VectorRecord[]): Promise<void> {
     if (records.length === 0) return;
 
-    let table = await this.getTable(records);
-
-    // Table was just created from records — nothing left to add.
-    if (table && !this.table) {
-      this.table = table;
-      return;
-    }
-
-    // Table already existed — append.
-    if (table) {
-      await table.add(records);
+    // Table already exists — append.
+    const existing = await this.getTable();
+    if (existing) {
+      await existing.add(records);
       return;
     }
 
-    // Fallback: table didn't exist and getTable returned null (shouldn't
-    // happen since we passed records, but guard defensively).
-    const db = await this.connect();
-    this.table = await db.createTable(this.tableName, records);
+    // First insert: create the table from the records themselves
+    // (nothing left to add afterwards).
+    await this.getTable(records);
   }
 
   /**
@@ -144,23 +226,161 @@ export class VectorDB {
    *
    * @param queryVector  The vector to search for.
    * @param limit        Maximum number of results (default 10).
+   * @param where        Optional SQL-style filter, applied before ranking.
    * @returns            Matching records sorted by distance (ascending).
    */
   async search<T = Record<string, unknown>>(
     queryVector: number[],
     limit = 10,
+    where?: string,
   ): Promise<SearchResult<T>[]> {
     const table = await this.getTable();
     if (!table) return [];
 
-    const raw = await table.vectorSearch(queryVector).limit(limit).toArray();
+    let query = table.vectorSearch(queryVector).limit(limit);
+    if (where) query = query.where(where);
+    const raw = await query.toArray();
+    return raw.map((row: Record<string, unknown>) =>
+      toSearchResult<T>(row, distanceToSimilarity(row._distance as number)),
+    );
+  }
+
+  /**
+   * BM25 full-text search over the `text` column. Catches exact names,
+   * clause numbers and acronyms that embeddings often miss.
+   *
+   * @returns Matching records sorted by `_score` (descending).
+   */
+  async keywordSearch<T = Record<string, unknown>>(
+    query: string,
+    limit = 10,
+    where?: string,
+  ): Promise<SearchResult<T>[]> {
+    const table = await this.getTable();
+    if (!table || !query.trim()) return [];
+    await this.ensureFtsIndex(table);
+
+    let search = table.query().fullTextSearch(query).limit(limit);
+    if (where) search = search.where(where);
+    const raw = await search.toArray();
+    return raw.map((row: Record<string, unknown>) =>
+      toSearchResult<T>(row, scoreToSimilarity(row._score as number)),
+    );
+  }
 
-    return raw.map((row: Record<string, unknown>) => {
-      const { _distance, ...rest } = row;
-      return { record: rest as T, _distance: _distance as number };
+  /**
+   * Vector and keyword search merged by reciprocal rank fusion: each
+   * result scores Σ 1 / (k + rank) over the rankings it appears in, so
+   * rows both searches agree on come first.
+   *
+   * @param minSimilarity  Drop fused results whose cosine similarity is
+   *                       below this before taking the top `limit`.
+   * @returns Matching records sorted by `_rrfScore` (descending). Rows
+   *          found by both searches carry both `_distance` and `_score`;
+   *          `similarity` is always the embedding cosine similarity.
+   */
+  async hybridSearch<T = Record<string, unknown>>(
+    queryVector: number[],
+    query: string,
+    limit = 10,
+    where?: string,
+    minSimilarity = 0,
+  ): Promise<SearchResult<T>[]> {
+    const table = await this.getTable();
+    if (!table) return [];
+    await this.ensureFtsIndex(table);
+
+    const candidates = limit * HYBRID_CANDIDATE_FACTOR;
+    let vectorQuery = table
+      .vectorSearch(queryVector)
+      .withRowId()
+      .limit(candidates);
+    let keywordQuery = table
+      .query()
+      .fullTextSearch(query)
+      .withRowId()
+      .limit(candidates);
+    if (where) {
+      vectorQuery = vectorQuery.where(where);
+      keywordQuery = keywordQuery.where(where);
+    }
+    const [vectorRows, keywordRows] = await Promise.all([
+      vectorQuery.toArray(),
+      query.trim() ? keywordQuery.toArray() : Promise.resolve([]),
+    ]);
+
+    const fused = new Map<
+      unknown,
+      { row: Record<string, unknown>; score: number }
+    >();
+    for (const rows of [vectorRows, keywordRows]) {
+      rows.forEach((row: Record<string, unknown>, rank: number) => {
+        const entry = fused.get(row._rowid) ?? { row: {}, score: 0 };
+        entry.row = { ...entry.row, ...row };
+        entry.score += 1 / (RRF_K + rank + 1);
+        fused.set(row._rowid, entry);
+      });
+    }
+
+    return [...fused.values()]
+      .sort((a, b) => b.score - a.score)
+      .map(({ row, score }) => {
+        // Keyword-only matches have no distance; compute it from the row.
+        const distance =
+          typeof row._distance === "number"
+            ? row._distance
+            : squaredDistance(
+                Array.from(row.vector as Iterable<number>),
+                queryVector,
+              );
+        return {
+          ...toSearchResult<T>(row, distanceToSimilarity(distance)),
+          _rrfScore: score,
+        };
+      })
+      .filter((r) => r.similarity >= minSimilarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Read rows back without a vector search, e.g. to recover stored
+   * vectors by a metadata field instead of recomputing them.
+   *
+   * @param options.where    SQL-style filter (e.g. `"chunkHash IN ('a')"`).
+   * @param options.columns  Columns to return (default: all). Vector
+   *                         columns come back as plain `number[]`.
+   */
+  async query<T = Record<string, unknown>>(
+    options: { where?: string; columns?: string[] } = {},
+  ): Promise<T[]> {
+    const table = await this.getTable();
+    if (!table) return [];
+
+    let query = table.query();
+    if (options.where) query = query.where(options.where);
+    if (options.columns) query = query.select(options.columns);
+
+    const rows = await query.toArray();
+    return rows.map((row: Record<string, unknown>) => {
+      const plain: Record<string, unknown> = { ...row };
+      // Arrow returns list columns as Vector objects; normalise to arrays.
+      if (row.vector && typeof row.vector === "object") {
+        plain.vector = Array.from(row.vector as Iterable<number>);
+      }
+      return plain as T;
     });
   }
 
+  /**
+   * Delete every row matching an SQL-style filter.
+   * No-op if the table hasn't been created yet.
+   */
+  async delete(where: string): Promise<void> {
+    const table = await this.getTable();
+    if (!table) return;
+    await table.delete(where);
+  }
+
   /**
    * Drop the table and clear the cached reference so the next
    * `insert` call will recreate it from scratch.
@@ -172,8 +392,20 @@ export class VectorDB {
     if (existing.includes(this.tableName)) {
       await db.dropTable(this.tableName);
     }
+    await unlink(this.sidecarPath()).catch(() => {});
 
     this.table = null;
+    this.ftsIndex = null;
+  }
+
+  /**
+   * The table's current version (bumped by every write), or `null` if
+   * the table hasn't been created yet.
+   */
+  async version(): Promise<number | null> {
+    const table = await this.getTable();
+    if (!table) return null;
+    return table.version();
   }
 
   /**
@@ -186,6 +418,48 @@ export class VectorDB {
     return table.countRows();
   }
 
+  /**
+   * Create the full-text index on `text` unless the table already has
+   * one. Rows added later are still searched, just without the index.
+   */
+  private ensureFtsIndex(table: Table): Promise<void> {
+    this.ftsIndex ??= (async () => {
+      const indices = await table.listIndices();
+      const exists = indices.some(
+        (i) => i.indexType === "FTS" && i.columns.includes("text"),
+      );
+      if (!exists) {
+        await table.createIndex("text", { config: lancedb.Index.fts() });
+      }
+    })().catch((err) => {
+      this.ftsIndex = null;
+      throw err;
+    });
+    return this.ftsIndex;
+  }
+
+  // ── Sidecar ─────────────────────────────────────────────────────
+
+  private sidecarPath(): string {
+    return resolve(DB_DIR, `${this.tableName}.meta.json`);
+  }
+
+  /** Read the JSON sidecar stored next to the table, or `null` if none. */
+  async readSidecar<T>(): Promise<T | null> {
+    const file = Bun.file(this.sidecarPath());
+    if (!(await file.exists())) return null;
+    try {
+      return (await file.json()) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Overwrite the JSON sidecar. Removed again by `reset()`. */
+  async writeSidecar(data: unknown): Promise<void> {
+    await Bun.write(this.sidecarPath(), JSON.stringify(data));
+  }
+
   // ── Public API — text (requires embedder) ─────────────────────
 
   /** Throws if no `Embedder` was provided at construction time. */
@@ -221,17 +495,40 @@ export class VectorDB {
   }
 
   /**
-   * Embed a query string and perform nearest-neighbour search.
+   * Search by query text: embed it for a nearest-neighbour search, run
+   * it as a keyword search, or both (see `SearchMode`).
    *
-   * @param query  Natural-language query text.
-   * @param limit  Maximum number of results (default 10).
+   * @param query    Natural-language query text.
+   * @param limit    Maximum number of results (default 10).
+   * @param options  Ranking mode, filter and similarity cutoff.
    */
   async searchText<T = Record<string, unknown>>(
     query: string,
     limit = 10,
+    options: SearchOptions = {},
   ): Promise<SearchResult<T>[]> {
-    const embedder = this.requireEmbedder();
-    const queryVector = await embedder.embed(query);
-    return this.search<T>(queryVector, limit);
+    const { mode = "vector", where, minSimilarity = 0 } = options;
+    if (mode === "hybrid") {
+      const queryVector = await this.requireEmbedder().embed(query);
+      return this.hybridSearch<T>(
+        queryVector,
+        query,
+        limit,
+        where,
+        minSimilarity,
+      );
+    }
+
+    // Vector and keyword results come best-first by similarity, so
+    // filtering the top `limit` loses nothing a larger fetch would keep.
+    const results =
+      mode === "keyword"
+        ? await this.keywordSearch<T>(query, limit, where)
+        : await this.search<T>(
+            await this.requireEmbedder().embed(query),
+            limit,
+            where,
+          );
+    return results.filter((r) => r.similarity >= minSimilarity);
   }
 }
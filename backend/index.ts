@@ -1,40 +1,25 @@
-import Agent from "solo-ai-sdk";
-import { Router } from "./router";
-import { registerDocsRoutes } from "./router/docs";
-import { registerAnalyzeRoutes } from "./router/analyze";
+import { createApp } from "./app";
+import { ApiKeyStore } from "./db/apikeys";
+import { DocStore } from "./db/docstore";
+import { JobStore } from "./db/jobstore";
+import { DocSyncRegistry } from "./services/doc-sync";
+import { JobQueue } from "./services/jobs";
 
-const router = new Router();
+const docStore = new DocStore();
+// One vector table + sync manager per document, evicted when idle
+const syncRegistry = new DocSyncRegistry();
 
-registerDocsRoutes(router);
-registerAnalyzeRoutes(router);
+// Background analyses; jobs a previous run left unfinished start over
+const jobs = new JobQueue(new JobStore());
 
-// ─── CORS helper ─────────────────────────────────────────────────────
-
-const CORS_HEADERS: Record<string, string> = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
-};
-
-function withCors(res: Response): Response {
-  for (const [key, value] of Object.entries(CORS_HEADERS)) {
-    res.headers.set(key, value);
-  }
-  return res;
-}
+const router = createApp(docStore, syncRegistry, new ApiKeyStore(), jobs);
+jobs.start();
 
 // ─── Server ──────────────────────────────────────────────────────────
 
 const server = Bun.serve({
   port: 3000,
-  async fetch(req) {
-    // Handle CORS preflight
-    if (req.method === "OPTIONS") {
-      return new Response(null, { status: 204, headers: CORS_HEADERS });
-    }
-    const res = await router.handle(req);
-    return withCors(res);
-  },
+  fetch: (req) => router.handle(req),
 });
 
 console.log(`🚀 Server running at http://localhost:${server.port}`);
@@ -0,0 +1,195 @@
+/**
+ * Concurrency, rate limiting and retries for LLM calls.
+ *
+ * - `mapConcurrent` runs a worker over many items with bounded
+ *   parallelism, returning (and reporting) results in input order
+ * - `RateLimiter` caps requests per minute; `llmFor` keeps one per provider
+ * - `withBackoff` retries 429 / 5xx failures with exponential backoff
+ *
+ * Usage:
+ * ```ts
+ * const perChunk = await mapConcurrent(chunks, (chunk) => review(chunk), {
+ *   signal,
+ *   onResult: (result, index) => console.log(index, result),
+ * });
+ * ```
+ */
+
+import { LLMError } from "./index";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface MapOptions<R> {
+  /** Workers running at once (default `LLM_CONCURRENCY`, else 4). */
+  concurrency?: number;
+  /** Stop starting new items once aborted; the call then rejects. */
+  signal?: AbortSignal;
+  /** Called for every result in input order, as soon as it's available. */
+  onResult?: (result: R, index: number) => void;
+}
+
+export interface BackoffOptions {
+  /** Retries after the first attempt (default `LLM_MAX_RETRIES`, else 3). */
+  retries?: number;
+  /** Delay before the first retry; doubles on each attempt (default 1 s). */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (default 30 s). */
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** A timer that rejects early when `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Rate limits and server errors are worth retrying; the rest aren't. */
+export function isRetryable(err: unknown): boolean {
+  return (
+    err instanceof LLMError &&
+    err.status !== undefined &&
+    (err.status === 429 || err.status >= 500)
+  );
+}
+
+// ─── mapConcurrent ───────────────────────────────────────────────────
+
+/**
+ * Map `items` through `worker` with at most `concurrency` calls in
+ * flight. The returned array matches the input order. If a worker
+ * throws, no new items start and the error is rethrown once the
+ * in-flight calls settle.
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: MapOptions<R> = {},
+): Promise<R[]> {
+  const concurrency = Math.max(
+    1,
+    Math.floor(options.concurrency ?? envNumber("LLM_CONCURRENCY", 4)),
+  );
+  const results = new Array<R>(items.length);
+  const finished = new Array<boolean>(items.length).fill(false);
+  let next = 0;
+  let reported = 0;
+  let failure: { error: unknown } | null = null;
+
+  // Report the finished prefix, so results arrive in input order.
+  const report = () => {
+    while (reported < items.length && finished[reported]) {
+      options.onResult?.(results[reported]!, reported);
+      reported++;
+    }
+  };
+
+  const run = async () => {
+    while (next < items.length && !failure && !options.signal?.aborted) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index]!, index);
+      } catch (error) {
+        failure ??= { error };
+        return;
+      }
+      finished[index] = true;
+      report();
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, run),
+  );
+
+  if (failure) throw (failure as { error: unknown }).error;
+  options.signal?.throwIfAborted();
+  return results;
+}
+
+// ─── RateLimiter ─────────────────────────────────────────────────────
+
+/** Sliding one-minute window; callers are admitted in arrival order. */
+export class RateLimiter {
+  private requestsPerMinute: number;
+  private timestamps: number[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  /** @param requestsPerMinute  `Infinity` disables limiting. */
+  constructor(requestsPerMinute: number) {
+    this.requestsPerMinute = requestsPerMinute;
+  }
+
+  /** Resolves when the caller may send its request. */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (this.requestsPerMinute === Infinity) return Promise.resolve();
+
+    const turn = this.queue.then(() => this.waitForSlot(signal));
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  private async waitForSlot(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter((t) => now - t < 60_000);
+      if (this.timestamps.length < this.requestsPerMinute) {
+        this.timestamps.push(now);
+        return;
+      }
+      await sleep(this.timestamps[0]! + 60_000 - now, signal);
+    }
+  }
+}
+
+// ─── withBackoff ─────────────────────────────────────────────────────
+
+/**
+ * Call `fn`, retrying retryable failures (see `isRetryable`) with
+ * exponential backoff and jitter. A provider's `Retry-After` hint is
+ * honoured when it asks for a longer wait.
+ */
+export async function withBackoff<T>(
+  fn: () => Promise<T>,
+  options: BackoffOptions = {},
+): Promise<T> {
+  const retries = options.retries ?? envNumber("LLM_MAX_RETRIES", 3);
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err)) throw err;
+
+      const exponential = baseDelayMs * 2 ** attempt;
+      const jittered = exponential * (0.5 + Math.random() * 0.5);
+      const hinted = (err as LLMError).retryAfterMs ?? 0;
+      const delay = Math.round(
+        Math.min(maxDelayMs, Math.max(jittered, hinted)),
+      );
+
+      console.error(`${(err as Error).message} — retrying in ${delay} ms`);
+      await sleep(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Gemini provider backed by `solo-ai-sdk`.
+ *
+ * The SDK only returns complete responses, so this provider doesn't
+ * stream: `onToken` is never called, and streaming routes send only
+ * their final result. It's loaded on the first call, so other providers
+ * (e.g. `mock` in tests) run without it installed.
+ */
+
+import type Agent from "solo-ai-sdk";
+import { LLMError, type GenerateRequest, type LLMProvider } from "./index";
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  readonly defaultModel = "gemini-2.5-flash";
+  private agent: Promise<Agent> | null = null;
+
+  async generate(request: GenerateRequest): Promise<string> {
+    request.signal?.throwIfAborted();
+
+    let response;
+    try {
+      this.agent ??= import("solo-ai-sdk").then(
+        ({ default: Agent }) => new Agent("gemini"),
+      );
+      const agent = await this.agent;
+      response = await agent.generate(request.system, request.messages, {
+        model: request.model,
+      });
+    } catch (err: any) {
+      throw new LLMError(
+        err?.message ?? String(err),
+        this.name,
+        typeof err?.status === "number" ? err.status : undefined,
+      );
+    }
+
+    return (response.content as string | undefined) ?? "";
+  }
+}
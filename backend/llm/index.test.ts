@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  LLMQuotaError,
+  configureTasks,
+  llmFor,
+  onLLMCall,
+  resolveTaskConfig,
+  setProvider,
+  type LLMCall,
+} from "./index";
+import { MockProvider } from "./mock";
+import { chatResultShape, objectParser } from "../services/structured-output";
+
+process.env.LLM_PROVIDER = "mock";
+
+let mock: MockProvider;
+
+beforeEach(() => {
+  mock = new MockProvider();
+  setProvider(mock);
+});
+
+describe("llmFor", () => {
+  test("sends every task to LLM_PROVIDER", () => {
+    for (const task of ["chat", "criticize", "suggest", "summarize"] as const) {
+      expect(llmFor(task)).toMatchObject({ provider: "mock", model: "mock" });
+    }
+  });
+
+  test("lets configureTasks override a task until it's cleared", () => {
+    configureTasks({ summarize: { model: "scripted" } });
+    expect(resolveTaskConfig("summarize")).toEqual({
+      provider: "mock",
+      model: "scripted",
+    });
+    configureTasks({ summarize: {} });
+    expect(resolveTaskConfig("summarize").model).toBe("mock");
+  });
+
+  test("rejects unknown providers", () => {
+    process.env.LLM_CHAT_PROVIDER = "nope";
+    try {
+      expect(() => llmFor("chat")).toThrow(
+        'LLM_CHAT_PROVIDER must be one of gemini, openai, mock (got "nope").',
+      );
+    } finally {
+      delete process.env.LLM_CHAT_PROVIDER;
+    }
+  });
+
+  test("answers a chat turn with a reply action", async () => {
+    const content = await llmFor("chat").generate(
+      "Answer with a JSON object.",
+      [{ role: "user", content: "USER QUERY: What is this about?" }],
+    );
+    expect(objectParser(chatResultShape)(content)).toEqual({
+      value: {
+        action: "reply",
+        replyText: "Mock reply to: What is this about?",
+      },
+      errors: [],
+    });
+    expect(mock.calls).toHaveLength(1);
+    expect(mock.calls[0]!.system).toBe("Answer with a JSON object.");
+  });
+
+  test("streams the mock's answer to onToken", async () => {
+    const tokens: string[] = [];
+    const content = await llmFor("summarize").generate(
+      "Summarize.",
+      [{ role: "user", content: "One sentence. Another one." }],
+      { onToken: (token) => tokens.push(token) },
+    );
+    expect(content).toBe("Mock summary (26 characters): One sentence.");
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe(content);
+  });
+});
+
+describe("onLLMCall", () => {
+  let removers: Array<() => void> = [];
+
+  afterEach(() => {
+    removers.forEach((remove) => remove());
+    removers = [];
+  });
+
+  test("tells listeners about each call", async () => {
+    const calls: LLMCall[] = [];
+    removers.push(onLLMCall((call) => calls.push(call)));
+
+    await llmFor("criticize").generate("Return a JSON array.", []);
+    expect(calls).toEqual([
+      { task: "criticize", provider: "mock", model: "mock" },
+    ]);
+  });
+
+  test("lets a listener refuse the call", async () => {
+    removers.push(
+      onLLMCall(() => {
+        throw new LLMQuotaError("Quota used up.", 1000);
+      }),
+    );
+
+    await expect(llmFor("suggest").generate("x", [])).rejects.toBeInstanceOf(
+      LLMQuotaError,
+    );
+    expect(mock.calls).toEqual([]);
+  });
+});
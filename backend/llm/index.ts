@@ -0,0 +1,280 @@
+/**
+ * LLM provider layer.
+ *
+ * Services ask for a client by task (`llmFor("criticize")`) instead of
+ * constructing a provider and hardcoding a model. Which provider and
+ * model serve each task comes from the environment (Bun loads `.env`):
+ *
+ *   LLM_PROVIDER            default provider for every task (gemini)
+ *   LLM_MODEL               default model for every task
+ *   LLM_<TASK>_PROVIDER     per-task provider, e.g. LLM_SUMMARIZE_PROVIDER
+ *   LLM_<TASK>_MODEL        per-task model,    e.g. LLM_CHAT_MODEL
+ *   OPENAI_BASE_URL         OpenAI-compatible endpoint (default: local Ollama)
+ *   OPENAI_API_KEY          sent as a bearer token when set
+ *   OPENAI_MODEL            default model for the `openai` provider
+ *   LLM_<PROVIDER>_RPM      requests per minute, e.g. LLM_GEMINI_RPM=60
+ *   LLM_CONCURRENCY         chunks processed in parallel (default 4)
+ *   LLM_MAX_RETRIES         retries on 429 / 5xx responses (default 3)
+ *
+ * Providers: `gemini` (solo-ai-sdk), `openai` (any OpenAI-compatible
+ * `/chat/completions` endpoint, e.g. Ollama, vLLM, LM Studio) and `mock`
+ * (deterministic canned answers, no network).
+ *
+ * Every client call waits for its provider's rate limiter and is retried
+ * with exponential backoff on 429 / 5xx (see `./executor`). Listeners
+ * added with `onLLMCall` hear about each call, e.g. to meter usage.
+ *
+ * Usage:
+ * ```ts
+ * const llm = llmFor("suggest");
+ * const content = await llm.generate(SYSTEM_PROMPT, [
+ *   { role: "user", content: chunk.text },
+ * ]);
+ *
+ * // Tests: route every task to the mock provider
+ * configureTasks({ chat: { provider: "mock" }, criticize: { provider: "mock" } });
+ * ```
+ */
+
+import { GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import { MockProvider } from "./mock";
+import { RateLimiter, withBackoff } from "./executor";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type LLMTask = "chat" | "criticize" | "suggest" | "summarize";
+
+export type ProviderName = "gemini" | "openai" | "mock";
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface GenerateRequest {
+  system: string;
+  messages: LLMMessage[];
+  model: string;
+  signal?: AbortSignal;
+  /**
+   * Receives output text as it's generated. Providers that can't stream
+   * never call it; their output is only the returned text.
+   */
+  onToken?: (text: string) => void;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  /** Model used when a task doesn't name one for this provider. */
+  readonly defaultModel: string;
+  /** @returns The complete response text. */
+  generate(request: GenerateRequest): Promise<string>;
+}
+
+export interface TaskConfig {
+  provider?: ProviderName;
+  model?: string;
+}
+
+/** A provider bound to the model configured for one task. */
+export interface LLMClient {
+  readonly provider: ProviderName;
+  readonly model: string;
+  generate(
+    system: string,
+    messages: LLMMessage[],
+    options?: Pick<GenerateRequest, "signal" | "onToken">,
+  ): Promise<string>;
+}
+
+/** What `onLLMCall` listeners are told about each call. */
+export interface LLMCall {
+  task: LLMTask;
+  provider: ProviderName;
+  model: string;
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────
+
+/**
+ * Thrown by an `onLLMCall` listener to refuse a call because the caller
+ * has used up its quota; `retryAfterMs` is when it can call again.
+ * Services let it through rather than skipping the failed step.
+ */
+export class LLMQuotaError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(message);
+    this.name = "LLMQuotaError";
+  }
+}
+
+/**
+ * A failed provider call. `status` is the HTTP status when there is one;
+ * `retryAfterMs` carries the server's `Retry-After` hint.
+ */
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    readonly provider: ProviderName,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
+
+// ─── Configuration ───────────────────────────────────────────────────
+
+const PROVIDER_NAMES: ProviderName[] = ["gemini", "openai", "mock"];
+
+/** The models each task used before providers were configurable. */
+const TASK_DEFAULTS: Record<LLMTask, Required<TaskConfig>> = {
+  chat: { provider: "gemini", model: "gemini-2.5-flash" },
+  criticize: { provider: "gemini", model: "gemini-2.5-flash" },
+  suggest: { provider: "gemini", model: "gemini-3-flash-preview" },
+  summarize: { provider: "gemini", model: "gemini-3-flash-preview" },
+};
+
+/** Runtime overrides from `configureTasks`, applied over the environment. */
+const overrides: Partial<Record<LLMTask, TaskConfig>> = {};
+
+/** Providers are created on first use and then shared. */
+const providers = new Map<ProviderName, LLMProvider>();
+/** One limiter per provider, shared by every task that uses it. */
+const limiters = new Map<ProviderName, RateLimiter>();
+const callListeners = new Set<(call: LLMCall) => void>();
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function parseProvider(value: string | undefined, source: string) {
+  if (value === undefined) return undefined;
+  if (!PROVIDER_NAMES.includes(value as ProviderName)) {
+    throw new Error(
+      `${source} must be one of ${PROVIDER_NAMES.join(", ")} (got "${value}").`,
+    );
+  }
+  return value as ProviderName;
+}
+
+function createProvider(name: ProviderName): LLMProvider {
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider();
+    case "openai":
+      return new OpenAICompatibleProvider({
+        baseUrl: readEnv("OPENAI_BASE_URL"),
+        apiKey: readEnv("OPENAI_API_KEY"),
+        defaultModel: readEnv("OPENAI_MODEL"),
+      });
+    case "mock":
+      return new MockProvider();
+  }
+}
+
+/** Resolve the provider and model for a task. */
+export function resolveTaskConfig(task: LLMTask): Required<TaskConfig> {
+  const key = task.toUpperCase();
+  const override = overrides[task] ?? {};
+  const taskProvider = parseProvider(
+    readEnv(`LLM_${key}_PROVIDER`),
+    `LLM_${key}_PROVIDER`,
+  );
+  const globalProvider = parseProvider(readEnv("LLM_PROVIDER"), "LLM_PROVIDER");
+
+  const provider =
+    override.provider ??
+    taskProvider ??
+    globalProvider ??
+    TASK_DEFAULTS[task].provider;
+
+  // The built-in model names only make sense for the default provider.
+  const model =
+    override.model ??
+    readEnv(`LLM_${key}_MODEL`) ??
+    readEnv("LLM_MODEL") ??
+    (provider === TASK_DEFAULTS[task].provider
+      ? TASK_DEFAULTS[task].model
+      : getProvider(provider).defaultModel);
+
+  return { provider, model };
+}
+
+function limiterFor(name: ProviderName): RateLimiter {
+  let limiter = limiters.get(name);
+  if (!limiter) {
+    const rpm = Number(readEnv(`LLM_${name.toUpperCase()}_RPM`));
+    limiter = new RateLimiter(rpm > 0 ? rpm : Infinity);
+    limiters.set(name, limiter);
+  }
+  return limiter;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+export function getProvider(name: ProviderName): LLMProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/** Replace a provider instance, e.g. a `MockProvider` with scripted answers. */
+export function setProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Override the provider and/or model for some tasks at runtime. Pass an
+ * empty object for a task to fall back to the environment again.
+ */
+export function configureTasks(
+  config: Partial<Record<LLMTask, TaskConfig>>,
+): void {
+  for (const [task, taskConfig] of Object.entries(config)) {
+    overrides[task as LLMTask] = { ...taskConfig };
+  }
+}
+
+/**
+ * Call `listener` before every model call (once per `generate`, however
+ * many retries it takes). A listener that throws refuses the call:
+ * `generate` rejects with its error without calling the provider.
+ * Returns a function that removes it.
+ */
+export function onLLMCall(listener: (call: LLMCall) => void): () => void {
+  callListeners.add(listener);
+  return () => callListeners.delete(listener);
+}
+
+/** The client a service should use for `task`. */
+export function llmFor(task: LLMTask): LLMClient {
+  const { provider: providerName, model } = resolveTaskConfig(task);
+  const provider = getProvider(providerName);
+
+  return {
+    provider: providerName,
+    model,
+    generate: async (system, messages, options = {}) => {
+      for (const listener of callListeners) {
+        listener({ task, provider: providerName, model });
+      }
+      return withBackoff(
+        async () => {
+          await limiterFor(providerName).acquire(options.signal);
+          return provider.generate({ system, messages, model, ...options });
+        },
+        { signal: options.signal },
+      );
+    },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Deterministic offline provider for tests and local development.
+ *
+ * The default responder answers in the shape each prompt asks for:
+ *  - prompts asking for a JSON array get `[]`
+ *  - prompts asking for a JSON object get a chat `reply` action
+ *  - anything else gets a short summary-like echo of the input
+ *
+ * Pass a custom responder to script exact answers. Output is streamed
+ * word by word to `onToken`.
+ */
+
+import type { GenerateRequest, LLMProvider } from "./index";
+
+export type MockResponder = (request: GenerateRequest) => string;
+
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly defaultModel = "mock";
+  /** Every request received, oldest first. */
+  readonly calls: GenerateRequest[] = [];
+  private respond: MockResponder;
+
+  constructor(respond: MockResponder = defaultResponse) {
+    this.respond = respond;
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    request.signal?.throwIfAborted();
+    this.calls.push(request);
+
+    const content = this.respond(request);
+    if (request.onToken) {
+      for (const token of content.match(/\S+\s*|\s+/g) ?? []) {
+        request.onToken(token);
+      }
+    }
+    return content;
+  }
+}
+
+function defaultResponse(request: GenerateRequest): string {
+  const input = request.messages.at(-1)?.content ?? "";
+
+  if (/JSON array/i.test(request.system)) return "[]";
+
+  if (/JSON object/i.test(request.system)) {
+    const query = /USER QUERY: (.*)/.exec(input)?.[1] ?? input;
+    return JSON.stringify({
+      action: "reply",
+      replyText: `Mock reply to: ${query.trim().slice(0, 200)}`,
+    });
+  }
+
+  const firstSentence = input.trim().split(/(?<=[.!?])\s/)[0] ?? "";
+  return `Mock summary (${input.length} characters): ${firstSentence.slice(0, 200)}`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Provider for any OpenAI-compatible `/chat/completions` endpoint —
+ * OpenAI itself, or a local server such as Ollama, vLLM or LM Studio.
+ *
+ * Responses are streamed (`stream: true`) when the caller passes
+ * `onToken`; otherwise a single JSON response is read.
+ */
+
+import { LLMError, type GenerateRequest, type LLMProvider } from "./index";
+
+export interface OpenAICompatibleOptions {
+  /** API root including `/v1` (default: Ollama on localhost). */
+  baseUrl?: string;
+  /** Sent as `Authorization: Bearer …` when set. */
+  apiKey?: string;
+  /** Model used when a task doesn't name one. */
+  defaultModel?: string;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  readonly defaultModel: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: OpenAICompatibleOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? "http://localhost:11434/v1").replace(
+      /\/+$/,
+      "",
+    );
+    this.apiKey = options.apiKey;
+    this.defaultModel = options.defaultModel ?? "llama3.1";
+  }
+
+  async generate(request: GenerateRequest): Promise<string> {
+    const stream = request.onToken !== undefined;
+
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: [
+            { role: "system", content: request.system },
+            ...request.messages,
+          ],
+          stream,
+        }),
+        signal: request.signal,
+      });
+    } catch (err: any) {
+      if (err?.name === "AbortError") throw err;
+      throw new LLMError(
+        `Request to ${this.baseUrl} failed: ${err?.message ?? err}`,
+        this.name,
+      );
+    }
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      const retryAfter = Number(res.headers.get("retry-after"));
+      throw new LLMError(
+        `${this.baseUrl} returned ${res.status}: ${detail.slice(0, 500)}`,
+        this.name,
+        res.status,
+        retryAfter > 0 ? retryAfter * 1000 : undefined,
+      );
+    }
+
+    if (!stream) {
+      const json: any = await res.json();
+      return json?.choices?.[0]?.message?.content ?? "";
+    }
+
+    return this.readStream(res, request.onToken!);
+  }
+
+  /** Collect `data:` lines of an SSE completion stream, forwarding deltas. */
+  private async readStream(
+    res: Response,
+    onToken: (text: string) => void,
+  ): Promise<string> {
+    const decoder = new TextDecoder();
+    let buffered = "";
+    let content = "";
+
+    for await (const bytes of res.body!) {
+      buffered += decoder.decode(bytes, { stream: true });
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith("data:")) continue;
+        const payload = data.slice(5).trim();
+        if (payload === "[DONE]") return content;
+
+        try {
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (typeof delta === "string" && delta) {
+            content += delta;
+            onToken(delta);
+          }
+        } catch {
+          // Ignore keep-alives and malformed lines
+        }
+      }
+    }
+
+    return content;
+  }
+}
@@ -3,181 +3,1004 @@
  *
  * POST /analyze/chunk  — chunk document, return analysis + chunks
  * POST /analyze/stats  — lightweight word/char/paragraph counts
- * POST /analyze/query  — sync VectorDB then semantic search
+ * POST /analyze/query  — sync VectorDB then vector, keyword or hybrid search
+ * POST /analyze/summarize — map-reduce LLM summary, mapped per section
+ * POST /analyze/apply  — apply accepted suggestions, return text + diff
+ *
+ * Every route takes either the full document as `text` or the `docId`
+ * of a document saved through `/docs`.
+ *
+ * The chat, summarize, criticize and suggest routes also have a `/stream`
+ * variant that answers with Server-Sent Events: partial results as they
+ * are produced, then a final `done` event (see `./sse`). Summarize,
+ * criticize and suggest also have a `/jobs` variant that queues the work
+ * as a background job and answers `202` at once (see `./jobs`).
  */
 
-import type { Router } from "./index";
 import {
-  analyzeDocument,
-  analyzeText,
-  type ChunkOptions,
-} from "../services/chunker";
-import { DocSyncManager } from "../services/doc-sync";
+  HttpError,
+  s,
+  ValidationError,
+  type Infer,
+  type Router,
+} from "./index";
+import { jobAccepted, jobResponse } from "./jobs";
+import { requestApiKey } from "./middleware";
+import { sseResponse } from "./sse";
+import { analyzeDocument, analyzeText } from "../services/chunker";
+import type { DocSyncRegistry } from "../services/doc-sync";
 import {
   extractHierarchy,
+  HIERARCHY_STRATEGIES,
+  isDefaultHierarchyOptions,
+  type HeadingNode,
+  type HierarchyMap,
   type HierarchyOptions,
 } from "../services/hierarchy-extractor";
 import { Embedder } from "../db/embedder";
+import { SEARCH_MODES } from "../db/vectordb";
+import type { DocStore, StoredDoc } from "../db/docstore";
 import { criticizeDocument } from "../services/criticism";
+import {
+  getReviewProfile,
+  listReviewProfiles,
+  type ReviewProfile,
+} from "../services/review-profiles";
 import { suggestChangesDocument } from "../services/suggest";
-import { summarizeDocument } from "../services/summarize";
-import { chatWithDocument } from "../services/agent";
+import {
+  summarizeDocument,
+  SUMMARY_FORMATS,
+  SUMMARY_LENGTHS,
+  usesMapPhase,
+} from "../services/summarize";
+import {
+  chatWithDocument,
+  formatUserTurn,
+  type ChatOptions,
+} from "../services/agent";
+import { ANCHOR_MATCHES } from "../services/anchor";
+import { applySuggestions } from "../services/apply";
+import { CHAT_ACTIONS } from "../services/structured-output";
+import { ChatSessionStore, type ChatSession } from "../services/chat-session";
+import type { DocumentStructure } from "../services/docx-import";
+import type { JobQueue } from "../services/jobs";
+import type { ProgressOptions } from "../services/progress";
 
-// Single shared sync manager instance (in-memory state per server lifetime)
-const syncManager = new DocSyncManager();
 // Shared embedder for hierarchy extraction on non-sync routes
 const embedder = new Embedder();
+// Conversation history for /analyze/chat (in-memory, per server lifetime)
+const chatSessions = new ChatSessionStore();
+
+// ─── Body schemas ────────────────────────────────────────────────────
+
+/** Body fields shared by every analyze route. */
+const documentRef = {
+  text: s.string().optional().describe("Full document text."),
+  docId: s
+    .string()
+    .optional()
+    .describe("Id of a stored document; takes precedence over `text`."),
+};
+
+const documentRefBody = s.object(documentRef);
+
+type DocumentRef = Infer<typeof documentRefBody>;
+
+const structure = s
+  .any<DocumentStructure>("Structure map from `/docs/import`.")
+  .optional();
+
+const chunkOptions = {
+  maxChunkSize: s.integer({ min: 1 }).optional(),
+  overlap: s.integer({ min: 0 }).optional(),
+};
+
+const hierarchyOptions = {
+  similarityThreshold: s.number({ min: 0, max: 1 }).optional(),
+  minSectionSize: s.integer({ min: 1 }).optional(),
+  docSummaryMaxSentences: s.integer({ min: 1 }).optional(),
+  sectionSummaryMaxSentences: s.integer({ min: 1 }).optional(),
+  maxOutlineDepth: s.integer({ min: 1 }).optional(),
+};
+
+const chunkBody = s.object({
+  ...documentRef,
+  options: s.object({ ...chunkOptions, ...hierarchyOptions }).optional(),
+  useHierarchy: s.boolean().optional(),
+  structure,
+});
+
+const hierarchyBody = s.object({
+  ...documentRef,
+  options: s.object(hierarchyOptions).optional(),
+  structure,
+});
+
+const queryBody = s.object({
+  ...documentRef,
+  question: s.string({ min: 1 }),
+  options: s
+    .object({
+      ...chunkOptions,
+      ...hierarchyOptions,
+      limit: s.integer({ min: 1, max: 100 }).optional(),
+      mode: s.enum(SEARCH_MODES).optional(),
+      minSimilarity: s
+        .number({ min: 0, max: 1 })
+        .optional()
+        .describe(
+          "Drop results below this similarity: cosine for vector and hybrid search, score / (score + 2) of BM25 for keyword search.",
+        ),
+      filter: s
+        .object({
+          sectionPath: s.string().optional(),
+          sectionTitle: s.string().optional(),
+          range: s
+            .object({
+              start: s.number({ min: 0 }).optional(),
+              end: s.number({ min: 0 }).optional(),
+            })
+            .optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+const criticizeBody = s.object({
+  ...documentRef,
+  profile: s
+    .string()
+    .optional()
+    .describe("Review profile name (see `GET /analyze/profiles`)."),
+});
+
+type CriticizeBody = Infer<typeof criticizeBody>;
+
+const summarizeBody = s.object({
+  ...documentRef,
+  options: s
+    .object({
+      length: s.enum(SUMMARY_LENGTHS).optional(),
+      audience: s.string().optional(),
+      format: s.enum(SUMMARY_FORMATS).optional(),
+    })
+    .optional(),
+  structure,
+});
+
+type SummarizeBody = Infer<typeof summarizeBody>;
+
+const applyBody = s.object({
+  ...documentRef,
+  // Items are checked one by one by `applySuggestions`, which rejects
+  // malformed ones with code `invalid` rather than failing the request.
+  suggestions: s
+    .array(s.any())
+    .describe(
+      "Accepted suggestions or chat edits: `{ quote, suggestion, start?, end? }`.",
+    ),
+  allOrNothing: s
+    .boolean()
+    .optional()
+    .describe("Apply nothing if any suggestion is rejected."),
+  save: s
+    .boolean()
+    .optional()
+    .describe("With `docId`, save the new text to the stored document."),
+});
+
+const chatBody = s.object({
+  ...documentRef,
+  query: s.string({ min: 1 }),
+  mode: s.string().optional(),
+  sessionId: s.string().optional(),
+});
+
+type ChatBody = Infer<typeof chatBody>;
+
+// ─── Response schemas ────────────────────────────────────────────────
+
+const statsFields = {
+  totalCharacters: s.integer(),
+  totalWords: s.integer(),
+  totalParagraphs: s.integer(),
+};
+
+const statsResponse = s.object(statsFields);
+
+const headingNode = s.object({
+  level: s.integer(),
+  title: s.string(),
+  startOffset: s.integer(),
+  endOffset: s.integer(),
+  children: s
+    .array(s.any<HeadingNode>())
+    .describe("Subheadings, each shaped like this one."),
+});
+
+const hierarchyResponse = s.object({
+  headings: s.array(headingNode),
+  outline: s.string(),
+  documentSummary: s.string(),
+  sectionSummaries: s.array(
+    s.object({
+      title: s.string(),
+      summary: s.string(),
+      startOffset: s.integer(),
+      endOffset: s.integer(),
+    }),
+  ),
+  strategy: s.enum(HIERARCHY_STRATEGIES),
+});
+
+const chunkResponse = s.object({
+  ...statsFields,
+  chunks: s.array(
+    s.object({
+      index: s.integer(),
+      text: s.string(),
+      start: s.integer(),
+      end: s.integer(),
+      hash: s.string(),
+      sectionTitle: s.string().optional(),
+      sectionPath: s.string().optional(),
+      contextPrefix: s.string().optional(),
+    }),
+  ),
+  hierarchy: hierarchyResponse
+    .optional()
+    .describe("Set when `useHierarchy` is true."),
+});
+
+const queryResponse = s.object({
+  results: s.array(
+    s.object({
+      record: s.object({
+        text: s.string(),
+        chunkHash: s.string(),
+        chunkIndex: s.integer(),
+        start: s.integer(),
+        end: s.integer(),
+        sectionTitle: s.string(),
+        sectionPath: s.string(),
+        contextPrefix: s.string(),
+      }),
+      similarity: s.number(),
+    }),
+  ),
+  hierarchy: hierarchyResponse.nullable(),
+});
+
+const profilesResponse = s.object({
+  default: s.string().describe("Name of the profile used when none is given."),
+  profiles: s.array(
+    s.object({
+      name: s.string(),
+      description: s.string(),
+      persona: s.string(),
+      focusAreas: s.array(s.string()),
+      severityScale: s
+        .array(s.string())
+        .describe("Severity labels, least severe first."),
+      tone: s.string(),
+      bannedPhrases: s.array(s.string()),
+    }),
+  ),
+});
+
+/** Where a criticism or suggestion was found in the document. */
+const anchoredFields = {
+  start: s.integer().optional(),
+  end: s.integer().optional(),
+  match: s.enum(ANCHOR_MATCHES).optional(),
+};
+
+/** Also what `/docs/export` accepts, so results can be posted back. */
+export const criticismResult = s.object({
+  quote: s.string(),
+  criticism: s.string(),
+  category: s.string().optional(),
+  severity: s.string().optional(),
+  ...anchoredFields,
+});
+
+export const suggestionResult = s.object({
+  quote: s.string(),
+  suggestion: s.string(),
+  reason: s.string(),
+  ...anchoredFields,
+});
+
+const suggestResponse = s.object({
+  suggestions: s.array(suggestionResult),
+  conflicts: s
+    .array(
+      s.object({
+        start: s.integer(),
+        end: s.integer(),
+        suggestions: s.array(suggestionResult),
+      }),
+    )
+    .describe("Overlapping suggestions that don't agree."),
+});
+
+const chatTurnResponse = s.object({
+  action: s.enum(CHAT_ACTIONS),
+  replyText: s.string().optional(),
+  criticisms: s.array(criticismResult).optional(),
+  suggestions: s.array(suggestionResult).optional(),
+  edits: s.array(suggestionResult).optional(),
+  trace: s
+    .array(
+      s.object({
+        tool: s.string(),
+        args: s.any<Record<string, unknown>>(),
+        output: s.string().optional(),
+        error: s.string().optional(),
+        durationMs: s.number(),
+      }),
+    )
+    .optional()
+    .describe("Tool calls made before answering, in order."),
+  sessionId: s.string(),
+});
+
+const summarizeResponse = s.object({
+  summary: s.string(),
+  format: s.enum(SUMMARY_FORMATS),
+  length: s.enum(SUMMARY_LENGTHS),
+});
+
+const applyResponse = s.object({
+  text: s.string(),
+  applied: s.array(s.any()),
+  rejected: s.array(s.any()).describe("Each with a `code` and a `reason`."),
+  diff: s.string().describe("Unified diff of the change."),
+});
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Resolve the document a request refers to: the stored document for
+ * `docId`, or the inline `text`. Throws a 404 for an unknown `docId`
+ * and a 400 when neither is given.
+ */
+function resolveDocument(
+  store: DocStore,
+  body: DocumentRef,
+): { text: string; doc: StoredDoc | null } {
+  if (body.docId !== undefined) {
+    const doc = store.get(body.docId);
+    if (!doc) throw new HttpError(404, `Document "${body.docId}" not found.`);
+    return { text: doc.text, doc };
+  }
+
+  if (!body.text) {
+    throw new ValidationError([
+      {
+        in: "body",
+        path: "text",
+        message: "is required unless `docId` is given",
+      },
+    ]);
+  }
+  return { text: body.text, doc: null };
+}
+
+/** The sync manager for a stored document, or for the inline text. */
+function syncManagerFor(
+  syncRegistry: DocSyncRegistry,
+  resolved: { text: string; doc: StoredDoc | null },
+) {
+  return resolved.doc
+    ? syncRegistry.get(resolved.doc.id)
+    : syncRegistry.getInline(resolved.text);
+}
+
+/** Look up the requested review profile, or a 400 naming the valid ones. */
+function resolveProfile(name: string | undefined): ReviewProfile {
+  const profile = getReviewProfile(name);
+  if (!profile) {
+    const names = listReviewProfiles().profiles.map((p) => p.name);
+    throw new ValidationError([
+      {
+        in: "body",
+        path: "profile",
+        message: `must be one of: ${names.join(", ")}`,
+      },
+    ]);
+  }
+  return profile;
+}
+
+/**
+ * Store `hierarchy` as the document's, but only when it was built the
+ * default way: no hierarchy options and no `structure` overriding the
+ * stored one. `/hierarchy` serves the stored map to every caller that
+ * asks for the default, so a custom one must not end up there.
+ */
+function saveDefaultHierarchy(
+  store: DocStore,
+  doc: StoredDoc | null,
+  hierarchy: HierarchyMap,
+  options?: HierarchyOptions,
+  structure?: DocumentStructure | null,
+): void {
+  if (doc && !structure && isDefaultHierarchyOptions(options)) {
+    store.saveHierarchy(doc.id, hierarchy);
+  }
+}
+
+/**
+ * The hierarchy used to split a summary's map phase: the stored one when
+ * the document has it, otherwise freshly extracted (and stored).
+ */
+async function summaryHierarchy(
+  store: DocStore,
+  resolved: { text: string; doc: StoredDoc | null },
+  structure?: DocumentStructure,
+): Promise<HierarchyMap> {
+  const { text, doc } = resolved;
+  if (doc?.hierarchy && !structure) return doc.hierarchy;
+
+  const hierarchy = await extractHierarchy(
+    text,
+    embedder,
+    undefined,
+    (structure ?? doc?.structure)?.headings,
+  );
+  saveDefaultHierarchy(store, doc, hierarchy, undefined, structure);
+  return hierarchy;
+}
+
+/** The `/summarize` response, shared with its background job. */
+async function runSummary(
+  store: DocStore,
+  body: SummarizeBody,
+  progress: ProgressOptions<string> = {},
+) {
+  const resolved = resolveDocument(store, body);
+  const hierarchy = usesMapPhase(resolved.text)
+    ? await summaryHierarchy(store, resolved, body.structure)
+    : undefined;
+  const summary = await summarizeDocument(resolved.text, {
+    ...body.options,
+    hierarchy,
+    ...progress,
+  });
+  return {
+    summary,
+    format: body.options?.format ?? "executive",
+    length: body.options?.length ?? "medium",
+  };
+}
+
+/**
+ * The chat session to continue: the one named by `sessionId` if it's
+ * live, otherwise a new one tied to this document and key. A session of
+ * another key is a 404; one started for another document is a 409, so
+ * its conversation never leaks into a different document.
+ */
+function chatSession(
+  sessionId: string | undefined,
+  doc: StoredDoc | null,
+  apiKeyId: string | null,
+): ChatSession {
+  const session = sessionId ? chatSessions.get(sessionId) : undefined;
+  if (!session)
+    return chatSessions.create({ docId: doc?.id ?? null, apiKeyId });
+
+  if (session.apiKeyId !== apiKeyId) {
+    throw new HttpError(404, "Session not found.");
+  }
+  if (session.docId !== (doc?.id ?? null)) {
+    throw new HttpError(
+      409,
+      "Session belongs to another document; start a new one.",
+    );
+  }
+  return session;
+}
+
+/**
+ * Run one chat turn and record it in the session, so the plain and
+ * streaming routes share the same history handling.
+ */
+async function runChatTurn(
+  syncRegistry: DocSyncRegistry,
+  resolved: { text: string; doc: StoredDoc | null },
+  body: ChatBody,
+  sessionId: string,
+  callbacks: Pick<ChatOptions, "onToolCall" | "signal"> = {},
+) {
+  const chatMode = body.mode || "Chat";
+  const chatResponse = await chatWithDocument(
+    resolved.text,
+    body.query,
+    chatMode,
+    {
+      syncManager: syncManagerFor(syncRegistry, resolved),
+      history: chatSessions.history(sessionId),
+      hierarchy: resolved.doc?.hierarchy ?? undefined,
+      ...callbacks,
+    },
+  );
+  // A failed turn throws before this, so history only holds answered
+  // turns. The tool trace is for the client; history keeps the answer.
+  const { trace: _trace, ...answer } = chatResponse;
+  chatSessions.append(
+    sessionId,
+    { role: "user", content: formatUserTurn(body.query, chatMode) },
+    { role: "assistant", content: JSON.stringify(answer) },
+  );
+  return chatResponse;
+}
+
+export function registerAnalyzeRoutes(
+  router: Router,
+  store: DocStore,
+  syncRegistry: DocSyncRegistry,
+  jobs: JobQueue,
+) {
+  // Jobs store the request body and resolve the document when they run,
+  // so a job for a `docId` reviews the document as it is then.
+  jobs.define<CriticizeBody>("criticize", (body, progress) => {
+    const { text } = resolveDocument(store, body);
+    const profile = resolveProfile(body.profile);
+    return criticizeDocument(text, { profile, ...progress });
+  });
+  jobs.define<DocumentRef>("suggest", (body, progress) => {
+    const { text } = resolveDocument(store, body);
+    return suggestChangesDocument(text, progress);
+  });
+  jobs.define<SummarizeBody>("summarize", (body, progress) =>
+    runSummary(store, body, progress),
+  );
 
-export function registerAnalyzeRoutes(router: Router) {
   router.group("/analyze", (r) => {
     // ── POST /analyze/chunk ──────────────────────────────────────
-    r.post("/chunk", async (ctx) => {
-      const { text, options, useHierarchy } = await ctx.body<{
-        text: string;
-        options?: ChunkOptions & HierarchyOptions;
-        useHierarchy?: boolean;
-      }>();
-
-      if (!text || typeof text !== "string") {
-        return Response.json(
-          { error: "Request body must include a `text` string." },
-          { status: 400 },
-        );
-      }
+    r.post(
+      "/chunk",
+      {
+        body: chunkBody,
+        response: chunkResponse,
+        operationId: "analyzeChunk",
+        summary: "Chunk a document; returns stats and chunks.",
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        const { text, doc } = resolveDocument(store, body);
+        const { options, useHierarchy } = body;
+        const structure = body.structure ?? doc?.structure;
 
-      let hierarchy;
-      if (useHierarchy) {
-        hierarchy = await extractHierarchy(text, embedder, options);
-      }
+        let hierarchy;
+        if (useHierarchy) {
+          hierarchy = await extractHierarchy(
+            text,
+            embedder,
+            options,
+            structure?.headings,
+          );
+          saveDefaultHierarchy(store, doc, hierarchy, options, body.structure);
+        }
 
-      const result = await analyzeDocument(text, options, hierarchy);
-      return Response.json(result);
-    });
+        const result = await analyzeDocument(text, options, hierarchy);
+        return Response.json(result);
+      },
+    );
 
     // ── POST /analyze/stats ──────────────────────────────────────
-    r.post("/stats", async (ctx) => {
-      const { text } = await ctx.body<{ text: string }>();
-
-      if (!text || typeof text !== "string") {
-        return Response.json(
-          { error: "Request body must include a `text` string." },
-          { status: 400 },
-        );
-      }
+    r.post(
+      "/stats",
+      {
+        body: documentRefBody,
+        response: statsResponse,
+        operationId: "analyzeStats",
+        summary: "Word, character and paragraph counts.",
+      },
+      async (ctx) => {
+        const { text } = resolveDocument(store, await ctx.body());
 
-      const stats = analyzeText(text);
-      return Response.json(stats);
-    });
+        const stats = analyzeText(text);
+        return Response.json(stats);
+      },
+    );
 
     // ── POST /analyze/query ──────────────────────────────────────
-    r.post("/query", async (ctx) => {
-      const { text, question, options } = await ctx.body<{
-        text: string;
-        question: string;
-        options?: ChunkOptions & HierarchyOptions & { limit?: number };
-      }>();
-
-      if (!text || typeof text !== "string") {
-        return Response.json(
-          { error: "Request body must include a `text` string." },
-          { status: 400 },
-        );
-      }
+    // `options.mode`: vector (default), keyword (BM25 full-text) or
+    // hybrid (both, merged by reciprocal rank fusion).
+    // `options.filter`: { sectionPath, sectionTitle, range: { start, end } }
+    // `options.minSimilarity`: drop results whose `similarity` is below it
+    // (0–1) before `limit` is applied. Similarity is cosine similarity for
+    // vector and hybrid search and a fixed mapping of the BM25 score,
+    // score / (score + 2), for keyword search.
+    // → { results: [{ record, similarity }], hierarchy }; records omit
+    //   their vectors.
+    r.post(
+      "/query",
+      {
+        body: queryBody,
+        response: queryResponse,
+        operationId: "queryDocument",
+        summary: "Sync the document into the vector store, then search it.",
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        const { text, doc } = resolveDocument(store, body);
+        const { question, options } = body;
 
-      if (!question || typeof question !== "string") {
-        return Response.json(
-          { error: "Request body must include a `question` string." },
-          { status: 400 },
+        const syncManager = syncManagerFor(syncRegistry, { text, doc });
+        const { results, hierarchy } = await syncManager.queryWithSync(
+          text,
+          question,
+          options,
         );
-      }
-
-      const { results, hierarchy } = await syncManager.queryWithSync(
-        text,
-        question,
-        options,
-      );
-      return Response.json({ results, hierarchy });
-    });
+        // The sync manager builds its map without the stored headings,
+        // so it's only the default one for documents without structure.
+        if (hierarchy) {
+          saveDefaultHierarchy(store, doc, hierarchy, options, doc?.structure);
+        }
+        return Response.json({
+          results: results.map(({ record, similarity }) => {
+            const { vector: _vector, ...fields } = record;
+            return { record: fields, similarity };
+          }),
+          hierarchy,
+        });
+      },
+    );
 
     // ── POST /analyze/hierarchy ────────────────────────────────────
-    r.post("/hierarchy", async (ctx) => {
-      const { text, options } = await ctx.body<{
-        text: string;
-        options?: HierarchyOptions;
-      }>();
-
-      if (!text || typeof text !== "string") {
-        return Response.json(
-          { error: "Request body must include a `text` string." },
-          { status: 400 },
+    r.post(
+      "/hierarchy",
+      {
+        body: hierarchyBody,
+        response: hierarchyResponse,
+        operationId: "analyzeHierarchy",
+        summary: "Headings, outline and section summaries.",
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        const { text, doc } = resolveDocument(store, body);
+        const { options } = body;
+
+        // A stored hierarchy is only reused for default options, since
+        // custom thresholds can produce a different map.
+        if (
+          doc?.hierarchy &&
+          isDefaultHierarchyOptions(options) &&
+          !body.structure
+        ) {
+          return Response.json(doc.hierarchy);
+        }
+
+        const hierarchy = await extractHierarchy(
+          text,
+          embedder,
+          options,
+          (body.structure ?? doc?.structure)?.headings,
         );
-      }
+        saveDefaultHierarchy(store, doc, hierarchy, options, body.structure);
+        return Response.json(hierarchy);
+      },
+    );
 
-      const hierarchy = await extractHierarchy(text, embedder, options);
-      return Response.json(hierarchy);
-    });
+    // ── GET /analyze/profiles ─────────────────────────────────────
+    r.get(
+      "/profiles",
+      {
+        response: profilesResponse,
+        operationId: "listReviewProfiles",
+        summary: "The configured review profiles and the default one.",
+      },
+      () => Response.json(listReviewProfiles()),
+    );
 
     // ── POST /analyze/criticize ────────────────────────────────────
-    r.post("/criticize", async (ctx) => {
-      const { text } = await ctx.body<{ text: string }>();
+    // Optional `profile` selects a review profile; each criticism then
+    // carries a `category` and `severity` from it.
+    r.post(
+      "/criticize",
+      {
+        body: criticizeBody,
+        response: s.array(criticismResult),
+        operationId: "criticizeDocument",
+        summary: "Review the document against a review profile.",
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        const { text } = resolveDocument(store, body);
+        const profile = resolveProfile(body.profile);
 
-      if (!text || typeof text !== "string") {
-        return Response.json(
-          { error: "Request body must include a `text` string." },
-          { status: 400 },
-        );
-      }
-
-      const criticisms = await criticizeDocument(text);
-      return Response.json(criticisms);
-    });
+        const criticisms = await criticizeDocument(text, { profile });
+        return Response.json(criticisms);
+      },
+    );
 
     // ── POST /analyze/suggest ──────────────────────────────────────
-    r.post("/suggest", async (ctx) => {
-      const { text } = await ctx.body<{ text: string }>();
+    r.post(
+      "/suggest",
+      {
+        body: documentRefBody,
+        response: suggestResponse,
+        operationId: "suggestChangesDocument",
+        summary: "Suggested text changes, with conflicting ones set apart.",
+      },
+      async (ctx) => {
+        const { text } = resolveDocument(store, await ctx.body());
+
+        // → { suggestions, conflicts }
+        const review = await suggestChangesDocument(text);
+        return Response.json(review);
+      },
+    );
+
+    // ── POST /analyze/criticize/stream ─────────────────────────────
+    // Events: `chunk` ({ index, total, results }) per chunk, then `done`
+    // with the merged `criticisms`.
+    r.post(
+      "/criticize/stream",
+      {
+        body: criticizeBody,
+        operationId: "criticizeDocumentStream",
+        summary: "`/criticize` as Server-Sent Events.",
+        produces: "text/event-stream",
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        const { text } = resolveDocument(store, body);
+        const profile = resolveProfile(body.profile);
 
-      if (!text || typeof text !== "string") {
-        return Response.json(
-          { error: "Request body must include a `text` string." },
-          { status: 400 },
+        return sseResponse(ctx.request, async (send, signal) => {
+          const criticisms = await criticizeDocument(text, {
+            profile,
+            signal,
+            onChunk: (progress) => send("chunk", progress),
+          });
+          return { criticisms };
+        });
+      },
+    );
+
+    // ── POST /analyze/suggest/stream ───────────────────────────────
+    // Events: `chunk` ({ index, total, results }) per chunk, then `done`
+    // with the reconciled `suggestions` and `conflicts`.
+    r.post(
+      "/suggest/stream",
+      {
+        body: documentRefBody,
+        operationId: "suggestChangesDocumentStream",
+        summary: "`/suggest` as Server-Sent Events.",
+        produces: "text/event-stream",
+      },
+      async (ctx) => {
+        const { text } = resolveDocument(store, await ctx.body());
+
+        return sseResponse(ctx.request, async (send, signal) => {
+          return suggestChangesDocument(text, {
+            signal,
+            onChunk: (progress) => send("chunk", progress),
+          });
+        });
+      },
+    );
+
+    // ── POST /analyze/summarize ───────────────────────────────────
+    // Options: `length` (short | medium | long), `audience` (free text)
+    // and `format` (executive | bullets | per-section).
+    r.post(
+      "/summarize",
+      {
+        body: summarizeBody,
+        response: summarizeResponse,
+        operationId: "summarizeDocument",
+        summary: "Map-reduce summary of the document.",
+      },
+      async (ctx) => Response.json(await runSummary(store, await ctx.body())),
+    );
+
+    // ── POST /analyze/summarize/stream ─────────────────────────────
+    // Same options as /summarize. Events: `chunk` per map-phase summary,
+    // `token` for the final summary text (only from providers that
+    // stream), then `done` with the `/summarize` response.
+    r.post(
+      "/summarize/stream",
+      {
+        body: summarizeBody,
+        operationId: "summarizeDocumentStream",
+        summary: "`/summarize` as Server-Sent Events.",
+        produces: "text/event-stream",
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        resolveDocument(store, body);
+
+        return sseResponse(ctx.request, (send, signal) =>
+          runSummary(store, body, {
+            signal,
+            onChunk: (progress) => send("chunk", progress),
+            onToken: (text) => send("token", { text }),
+          }),
         );
-      }
+      },
+    );
+
+    // ── POST /analyze/{criticize,suggest,summarize}/jobs ───────────
+    // Same bodies as the plain routes. → 202 with the queued job; poll
+    // `GET /jobs/:id` for per-chunk progress and the result, which is
+    // what the plain route would have returned.
+    r.post(
+      "/criticize/jobs",
+      {
+        body: criticizeBody,
+        response: jobResponse,
+        operationId: "criticizeDocumentJob",
+        summary: "Queue `/criticize` as a background job.",
+        status: 202,
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        // Fail now rather than in the job.
+        resolveDocument(store, body);
+        resolveProfile(body.profile);
 
-      const suggestions = await suggestChangesDocument(text);
-      return Response.json(suggestions);
-    });
+        const job = jobs.enqueue("criticize", body, requestApiKey(ctx)?.id);
+        return jobAccepted(job);
+      },
+    );
+
+    r.post(
+      "/suggest/jobs",
+      {
+        body: documentRefBody,
+        response: jobResponse,
+        operationId: "suggestChangesDocumentJob",
+        summary: "Queue `/suggest` as a background job.",
+        status: 202,
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        resolveDocument(store, body);
+
+        const job = jobs.enqueue("suggest", body, requestApiKey(ctx)?.id);
+        return jobAccepted(job);
+      },
+    );
+
+    r.post(
+      "/summarize/jobs",
+      {
+        body: summarizeBody,
+        response: jobResponse,
+        operationId: "summarizeDocumentJob",
+        summary: "Queue `/summarize` as a background job.",
+        status: 202,
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        resolveDocument(store, body);
+
+        const job = jobs.enqueue("summarize", body, requestApiKey(ctx)?.id);
+        return jobAccepted(job);
+      },
+    );
+
+    // ── POST /analyze/apply ───────────────────────────────────────
+    // All suggestions are resolved against the same text and applied in
+    // one pass. Returns { text, applied, rejected, diff }; each rejected
+    // item has a `code` (stale | not-found | ambiguous | overlap |
+    // invalid) and a `reason`.
+    r.post(
+      "/apply",
+      {
+        body: applyBody,
+        response: applyResponse,
+        operationId: "applySuggestions",
+        summary: "Apply accepted suggestions; returns the new text and a diff.",
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        const resolved = resolveDocument(store, body);
+
+        const result = applySuggestions(resolved.text, body.suggestions, {
+          allOrNothing: body.allOrNothing,
+        });
+        if (body.save && resolved.doc && result.applied.length > 0) {
+          store.update(resolved.doc.id, { text: result.text });
+        }
+        return Response.json(result);
+      },
+    );
 
     // ── POST /analyze/chat ────────────────────────────────────────
-    r.post("/chat", async (ctx) => {
-      const { text, query, mode } = await ctx.body<{
-        text: string;
-        query: string;
-        mode: string;
-      }>();
-
-      if (!text || typeof text !== "string") {
-        return Response.json(
-          { error: "Request body must include a `text` string." },
-          { status: 400 },
+    // Pass the returned `sessionId` back on follow-up turns so the agent
+    // sees the earlier conversation. A session only continues for the API
+    // key it started with, and one started for a stored `docId` only for
+    // that document; inline-text sessions carry over to new text, since
+    // the editor resends the document as it's edited between turns.
+    // `trace` lists the tool calls the agent made before answering.
+    r.post(
+      "/chat",
+      {
+        body: chatBody,
+        response: chatTurnResponse,
+        operationId: "chatDocument",
+        summary: "One chat turn about the document.",
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        const resolved = resolveDocument(store, body);
+
+        const session = chatSession(
+          body.sessionId,
+          resolved.doc,
+          requestApiKey(ctx)?.id ?? null,
         );
-      }
-      if (!query || typeof query !== "string") {
-        return Response.json(
-          { error: "Request body must include a `query` string." },
-          { status: 400 },
+
+        const chatResponse = await runChatTurn(
+          syncRegistry,
+          resolved,
+          body,
+          session.id,
         );
-      }
+        return Response.json({ ...chatResponse, sessionId: session.id });
+      },
+    );
 
-      try {
-        const chatResponse = await chatWithDocument(
-          text,
-          query,
-          mode || "Chat",
+    // ── POST /analyze/chat/stream ─────────────────────────────────
+    // Events: `session` ({ sessionId }) first, `tool` for each tool call
+    // the agent makes, `result` with the parsed ChatResult, then `done`.
+    // Disconnecting aborts the turn.
+    r.post(
+      "/chat/stream",
+      {
+        body: chatBody,
+        operationId: "chatDocumentStream",
+        summary: "`/chat` as Server-Sent Events.",
+        produces: "text/event-stream",
+      },
+      async (ctx) => {
+        const body = await ctx.body();
+        const resolved = resolveDocument(store, body);
+
+        const session = chatSession(
+          body.sessionId,
+          resolved.doc,
+          requestApiKey(ctx)?.id ?? null,
         );
-        return Response.json(chatResponse);
-      } catch (err: any) {
-        return Response.json({ error: err.message }, { status: 500 });
-      }
-    });
+
+        return sseResponse(ctx.request, async (send, signal) => {
+          send("session", { sessionId: session.id });
+          const chatResponse = await runChatTurn(
+            syncRegistry,
+            resolved,
+            body,
+            session.id,
+            { signal, onToolCall: (step) => send("tool", step) },
+          );
+          send("result", chatResponse);
+          return { sessionId: session.id };
+        });
+      },
+    );
+
+    // ── DELETE /analyze/chat/:sessionId ───────────────────────────
+    r.delete(
+      "/chat/:sessionId",
+      {
+        operationId: "deleteChatSession",
+        summary: "Forget a chat session.",
+        status: 204,
+      },
+      (ctx) => {
+        const session = chatSessions.get(ctx.params.sessionId!);
+        if (!session || session.apiKeyId !== (requestApiKey(ctx)?.id ?? null)) {
+          throw new HttpError(404, "Session not found.");
+        }
+        chatSessions.delete(session.id);
+        return new Response(null, { status: 204 });
+      },
+    );
   });
 }
@@ -1,4 +1,123 @@
-import type { Router } from "./index";
+/**
+ * Document API routes.
+ *
+ * GET    /docs         — list stored documents
+ * POST   /docs         — store a new document
+ * GET    /docs/:id     — fetch a stored document
+ * PUT    /docs/:id     — update title / text / structure
+ * DELETE /docs/:id     — delete a stored document
+ * POST   /docs/import  — upload a .docx, return plain text + structure map
+ *                        (`?save=true` also stores it)
+ * POST   /docs/export  — text + criticisms/suggestions → .docx with Word
+ *                        comments and tracked changes
+ */
+
+import { HttpError, s, type Router } from "./index";
+import { criticismResult, suggestionResult } from "./analyze";
+import type { DocStore } from "../db/docstore";
+import type { DocSyncRegistry } from "../services/doc-sync";
+import { importDocx, type DocumentStructure } from "../services/docx-import";
+import { exportDocx } from "../services/docx-export";
+
+const DOCX_MIME =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+/** Reject uploads above this size before unpacking them. */
+const MAX_IMPORT_BYTES = 25 * 1024 * 1024;
+
+// ─── Request schemas ─────────────────────────────────────────────────
+
+const docFields = {
+  title: s.string().optional(),
+  text: s.string(),
+  structure: s
+    .any<DocumentStructure | null>("Structure map from `/docs/import`.")
+    .optional(),
+};
+
+const createBody = s.object(docFields);
+
+const updateBody = s.object({
+  ...docFields,
+  text: docFields.text.optional(),
+});
+
+const importQuery = s.object({
+  filename: s.string().optional(),
+  save: s.boolean().optional().describe("Also store the imported document."),
+});
+
+const exportBody = s.object({
+  text: s.string({ min: 1 }),
+  title: s.string().optional(),
+  author: s
+    .string()
+    .optional()
+    .describe('Shown on comments and tracked changes (default "AI Reviewer").'),
+  criticisms: s.array(criticismResult).optional(),
+  suggestions: s.array(suggestionResult).optional(),
+  structure: s
+    .any<Pick<DocumentStructure, "headings">>(
+      "Structure map from `/docs/import`; only `headings` is used.",
+    )
+    .optional(),
+});
+
+// ─── Response schemas ────────────────────────────────────────────────
+
+const docSummaryFields = {
+  id: s.string(),
+  title: s.string(),
+  createdAt: s.string(),
+  updatedAt: s.string(),
+};
+
+const docSummary = s.object(docSummaryFields);
+
+const storedDoc = s.object({
+  ...docSummaryFields,
+  text: s.string(),
+  structure: s.any<DocumentStructure>().nullable(),
+  hierarchy: s
+    .any()
+    .nullable()
+    .describe("Hierarchy extracted from the current text, or null if stale."),
+});
+
+const importResponse = s.object({
+  title: s.string(),
+  text: s.string(),
+  structure: s.any<DocumentStructure>(),
+  id: s.string().optional().describe("Set when `save` stored the document."),
+});
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+const tooLarge = () =>
+  new HttpError(413, "File exceeds the 25 MB import limit.");
+
+/**
+ * The request body, read only up to `MAX_IMPORT_BYTES` so a body without
+ * a `Content-Length` can't make us buffer more than the limit.
+ */
+async function readImportBody(request: Request): Promise<Uint8Array> {
+  if (!request.body) return new Uint8Array();
+
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_IMPORT_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    parts.push(value);
+  }
+  return Buffer.concat(parts);
+}
 
 /**
  * Register all docs endpoints.
@@ -6,14 +125,176 @@ import type { Router } from "./index";
  * Usage:
  * ```ts
  * import { registerDocsRoutes } from "./docs";
- * registerDocsRoutes(router);
+ * registerDocsRoutes(router, new DocStore(), new DocSyncRegistry());
  * ```
  */
-export function registerDocsRoutes(router: Router) {
+export function registerDocsRoutes(
+  router: Router,
+  store: DocStore,
+  syncRegistry: DocSyncRegistry,
+) {
   router.group("/docs", (r) => {
     // GET /docs — list all docs
-    r.get("/", (ctx) => {
-      return Response.json({ message: "Docs Healthy" }, { status: 200 });
-    });
+    r.get(
+      "/",
+      {
+        response: s.array(docSummary),
+        operationId: "listDocs",
+        summary: "List stored documents.",
+      },
+      () => {
+        return Response.json(store.list());
+      },
+    );
+
+    // ── POST /docs ───────────────────────────────────────────────
+    r.post(
+      "/",
+      {
+        body: createBody,
+        response: storedDoc,
+        operationId: "createDoc",
+        summary: "Store a new document.",
+        status: 201,
+      },
+      async (ctx) => {
+        const doc = store.create(await ctx.body());
+        return Response.json(doc, { status: 201 });
+      },
+    );
+
+    // ── POST /docs/import ────────────────────────────────────────
+    // Accepts either `multipart/form-data` with a `file` field or the
+    // raw .docx bytes as the request body.
+    r.post(
+      "/import",
+      {
+        query: importQuery,
+        response: importResponse,
+        operationId: "importDocx",
+        summary:
+          "Upload a .docx (raw bytes, or multipart with a `file` field).",
+        consumes: DOCX_MIME,
+      },
+      async (ctx) => {
+        const contentType = ctx.request.headers.get("content-type") ?? "";
+        // Refuse what's declared too large before reading any of it.
+        const declared = Number(ctx.request.headers.get("content-length"));
+        if (declared > MAX_IMPORT_BYTES) throw tooLarge();
+
+        let bytes: Uint8Array;
+        let filename = ctx.query.filename ?? "Untitled.docx";
+
+        if (contentType.startsWith("multipart/form-data")) {
+          const form = await ctx.request.formData();
+          const file = form.get("file");
+          if (!(file instanceof File)) {
+            throw new HttpError(400, "Form data must include a `file` field.");
+          }
+          if (file.size > MAX_IMPORT_BYTES) throw tooLarge();
+          filename = file.name || filename;
+          bytes = new Uint8Array(await file.arrayBuffer());
+        } else {
+          bytes = await readImportBody(ctx.request);
+        }
+
+        if (bytes.byteLength === 0) {
+          throw new HttpError(400, "Request must include a .docx file.");
+        }
+
+        let result;
+        try {
+          result = importDocx(bytes, filename);
+        } catch (err: any) {
+          throw new HttpError(400, err.message);
+        }
+
+        if (ctx.query.save) {
+          const doc = store.create(result);
+          return Response.json({ ...result, id: doc.id }, { status: 201 });
+        }
+        return Response.json(result);
+      },
+    );
+
+    // ── POST /docs/export ────────────────────────────────────────
+    r.post(
+      "/export",
+      {
+        body: exportBody,
+        operationId: "exportDocx",
+        summary: "Build a .docx with review comments and tracked changes.",
+        produces: DOCX_MIME,
+      },
+      async (ctx) => {
+        const input = await ctx.body();
+
+        const { bytes, skipped } = exportDocx(input);
+        const filename = (input.title?.trim() || "document")
+          .replace(/[^\w\- ]+/g, "_")
+          .slice(0, 100);
+
+        return new Response(bytes, {
+          headers: {
+            "Content-Type": DOCX_MIME,
+            "Content-Disposition": `attachment; filename="${filename}.docx"`,
+            // Annotations whose quote couldn't be placed; the body is binary,
+            // so report them in a header for the client to surface.
+            "X-Skipped-Annotations": String(skipped.length),
+          },
+        });
+      },
+    );
+
+    // ── /docs/:id ────────────────────────────────────────────────
+    r.get(
+      "/:id",
+      {
+        response: storedDoc,
+        operationId: "getDoc",
+        summary: "Fetch a stored document.",
+      },
+      (ctx) => {
+        const doc = store.get(ctx.params.id!);
+        if (!doc) {
+          throw new HttpError(404, "Document not found.");
+        }
+        return Response.json(doc);
+      },
+    );
+
+    r.put(
+      "/:id",
+      {
+        body: updateBody,
+        response: storedDoc,
+        operationId: "updateDoc",
+        summary: "Update a stored document's title, text or structure.",
+      },
+      async (ctx) => {
+        const doc = store.update(ctx.params.id!, await ctx.body());
+        if (!doc) {
+          throw new HttpError(404, "Document not found.");
+        }
+        return Response.json(doc);
+      },
+    );
+
+    r.delete(
+      "/:id",
+      {
+        operationId: "deleteDoc",
+        summary: "Delete a stored document.",
+        status: 204,
+      },
+      async (ctx) => {
+        const id = ctx.params.id!;
+        if (!store.delete(id)) {
+          throw new HttpError(404, "Document not found.");
+        }
+        await syncRegistry.drop(id);
+        return new Response(null, { status: 204 });
+      },
+    );
   });
 }
@@ -0,0 +1,40 @@
+/**
+ * Error types shared by the router and its schemas.
+ *
+ * Kept apart from `./index` so `./schema` can extend `HttpError` without
+ * an import cycle.
+ */
+
+import type { RouteContext } from "./index";
+
+/**
+ * Throw from a handler or hook to answer with `status`. `message` is
+ * sent to the client, along with `details` when given.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/** The JSON error body every error response uses. */
+export function errorResponse(
+  ctx: Pick<RouteContext, "requestId">,
+  status: number,
+  message: string,
+  details?: unknown,
+): Response {
+  return Response.json(
+    {
+      error: message,
+      requestId: ctx.requestId,
+      ...(details !== undefined ? { details } : {}),
+    },
+    { status },
+  );
+}
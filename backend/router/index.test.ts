@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import { HttpError, Router, currentRequest } from "./index";
+
+const get = (
+  router: Router,
+  path: string,
+  headers: Record<string, string> = {},
+) => router.handle(new Request(`http://localhost${path}`, { headers }));
+
+describe("Router middleware", () => {
+  test("runs before hooks in order and after hooks in reverse", async () => {
+    const log: string[] = [];
+    const router = new Router();
+    for (const name of ["outer", "inner"]) {
+      router.use({
+        before: () => void log.push(`before ${name}`),
+        after: () => void log.push(`after ${name}`),
+      });
+    }
+    router.get("/", () => {
+      log.push("handler");
+      return new Response("ok");
+    });
+
+    await get(router, "/");
+    expect(log).toEqual([
+      "before outer",
+      "before inner",
+      "handler",
+      "after inner",
+      "after outer",
+    ]);
+  });
+
+  test("lets a before hook answer early and an after hook replace it", async () => {
+    const router = new Router();
+    router.use({ after: (_ctx, res) => new Response(`wrapped ${res.status}`) });
+    router.use({ before: () => new Response("early", { status: 418 }) });
+    router.get("/", () => new Response("handler"));
+
+    expect(await (await get(router, "/")).text()).toBe("wrapped 418");
+  });
+
+  test("applies group middleware only to that group's routes", async () => {
+    const router = new Router();
+    router.group("/admin", (r) => {
+      r.use({ before: () => new Response("denied", { status: 403 }) });
+      r.get("/stats", () => new Response("stats"));
+    });
+    router.get("/public", () => new Response("public"));
+
+    expect((await get(router, "/admin/stats")).status).toBe(403);
+    expect((await get(router, "/public")).status).toBe(200);
+  });
+});
+
+describe("Router errors", () => {
+  test("answers HttpErrors with their status and a request id", async () => {
+    const router = new Router();
+    router.get("/docs/:id", (ctx) => {
+      throw new HttpError(404, `No document ${ctx.params.id}.`);
+    });
+
+    const response = await get(router, "/docs/7", { "X-Request-Id": "req-1" });
+    expect(response.status).toBe(404);
+    expect(response.headers.get("X-Request-Id")).toBe("req-1");
+    expect(await response.json()).toEqual({
+      error: "No document 7.",
+      requestId: "req-1",
+    });
+  });
+
+  test("hides unexpected errors behind a generic 500", async () => {
+    const router = new Router();
+    router.get("/", () => {
+      throw new TypeError("undefined is not an object");
+    });
+
+    const error = console.error;
+    const logged: unknown[][] = [];
+    console.error = (...args: unknown[]) => void logged.push(args);
+    try {
+      const response = await get(router, "/");
+      expect(response.status).toBe(500);
+      const body = (await response.json()) as Record<string, string>;
+      expect(body).toEqual({
+        error: "Internal Server Error",
+        requestId: response.headers.get("X-Request-Id")!,
+      });
+      expect(logged[0]![0]).toContain(body.requestId);
+      expect(logged[0]![1]).toBeInstanceOf(TypeError);
+    } finally {
+      console.error = error;
+    }
+  });
+
+  test("tries error handlers in order before the built-in mapping", async () => {
+    const router = new Router();
+    router.onError(() => undefined);
+    router.onError((err) =>
+      err instanceof RangeError
+        ? new Response("mapped", { status: 502 })
+        : undefined,
+    );
+    router.get("/range", () => {
+      throw new RangeError("too far");
+    });
+    router.get("/http", () => {
+      throw new HttpError(409, "Conflict.");
+    });
+
+    expect((await get(router, "/range")).status).toBe(502);
+    expect((await get(router, "/http")).status).toBe(409);
+  });
+
+  test("answers unknown routes with a JSON 404", async () => {
+    const response = await get(new Router(), "/missing");
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: "Not Found" });
+  });
+});
+
+describe("currentRequest", () => {
+  test("reaches the request's context from deep in a handler", async () => {
+    const router = new Router();
+    router.get("/", async () => {
+      await Bun.sleep(1);
+      return new Response(currentRequest()?.requestId);
+    });
+
+    expect(
+      await (await get(router, "/", { "X-Request-Id": "abc" })).text(),
+    ).toBe("abc");
+    expect(currentRequest()).toBeUndefined();
+  });
+});
@@ -3,24 +3,130 @@
  *
  * Supports method-based registration, `:param` path parameters,
  * query-string parsing, and route grouping for cross-file organisation.
+ *
+ * Requests pass through ordered middleware: global middleware (`use`
+ * outside any group) wraps every request, including unmatched ones;
+ * middleware added with `use` inside a group wraps the routes that group
+ * registers after it. `before` hooks run in order and may answer early;
+ * `after` hooks run in reverse order and may replace the response.
+ *
+ * Anything a hook or handler throws goes to the error handlers (see
+ * `onError`) and comes back as JSON `{ error, requestId }`; unexpected
+ * errors are only logged and answer a generic `500`. Every
+ * response carries an `X-Request-Id` header. Code anywhere in a request's
+ * async call chain can reach its context through `currentRequest()`.
+ *
+ * Routes may declare a body and/or query schema (see `./schema`); the
+ * request is validated after the `before` hooks and a failure answers
+ * `400` listing every failing field. The same spec carries the metadata
+ * `./openapi` builds the API description from.
+ *
+ * Usage:
+ * ```ts
+ * const router = new Router();
+ * router.use({ after: (ctx, res) => console.log(ctx.requestId, res.status) });
+ * router.group("/admin", (r) => {
+ *   r.use({ before: requireAdmin });
+ *   r.get("/stats", handler); // requireAdmin runs first
+ *   r.post("/notes", { body: s.object({ text: s.string() }) }, async (ctx) => {
+ *     const { text } = await ctx.body(); // validated, typed { text: string }
+ *   });
+ * });
+ * ```
  */
 
+import { AsyncLocalStorage } from "async_hooks";
+import { HttpError, errorResponse } from "./errors";
+import { validateRequest, type Schema } from "./schema";
+
+export { HttpError, errorResponse } from "./errors";
+export { s, ValidationError, type FieldError, type Infer } from "./schema";
+
 // ─── Types ───────────────────────────────────────────────────────────
 
-export interface RouteContext {
+export interface RouteContext<
+  TBody = unknown,
+  TQuery = Record<string, string>,
+> {
   /** The original incoming request. */
   request: Request;
   /** Path parameters extracted from `:param` segments. */
   params: Record<string, string>;
-  /** Parsed query-string key/value pairs. */
-  query: Record<string, string>;
-  /** Parse the request body as JSON. */
-  body: <T = unknown>() => Promise<T>;
+  /** Parsed query-string key/value pairs (validated if the route has a query schema). */
+  query: TQuery;
+  /**
+   * Parse the request body as JSON (once; later calls share the result).
+   * Throws a 400 `HttpError` if it isn't valid JSON. With a body schema
+   * it resolves to the validated value.
+   */
+  body: <T = TBody>() => Promise<T>;
+  /** The `X-Request-Id` echoed on the response. */
+  requestId: string;
+  /** The matched route pattern, e.g. `/docs/:id` (unset when none matched). */
+  route?: string;
+  /** Scratch space for middleware to pass values to handlers. */
+  state: Record<string, unknown>;
+}
+
+export type RouteHandler<TBody = unknown, TQuery = Record<string, string>> = (
+  ctx: RouteContext<TBody, TQuery>,
+) => Response | Promise<Response>;
+
+/**
+ * What a route declares at registration: the schemas its request is
+ * validated against, plus metadata for the API docs (`./openapi`).
+ */
+export interface RouteSpec<TBody = unknown, TQuery = Record<string, string>> {
+  body?: Schema<TBody>;
+  query?: Schema<TQuery>;
+  /** Documents the JSON response; not checked at runtime. */
+  response?: Schema<unknown>;
+  /** One-line description for the API docs. */
+  summary?: string;
+  /** Stable operation name, also used for generated client methods. */
+  operationId?: string;
+  /** Request content type when the body isn't JSON, e.g. an upload. */
+  consumes?: string;
+  /** Response content type when it isn't JSON, e.g. `text/event-stream`. */
+  produces?: string;
+  /** Success status (default 200). */
+  status?: number;
 }
 
-export type RouteHandler = (ctx: RouteContext) => Response | Promise<Response>;
+/** A route's handler, optionally preceded by its spec. */
+type RouteArgs<TBody, TQuery> =
+  | [handler: RouteHandler<TBody, TQuery>]
+  | [spec: RouteSpec<TBody, TQuery>, handler: RouteHandler<TBody, TQuery>];
 
-type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+/** A registered route, as listed by `Router.listRoutes`. */
+export interface RouteInfo {
+  method: HttpMethod;
+  /** The full pattern, e.g. `/docs/:id`. */
+  pattern: string;
+  paramNames: string[];
+  spec: RouteSpec<unknown, unknown>;
+}
+
+export interface Middleware {
+  /** Runs before the handler; returning a `Response` skips the handler. */
+  before?: (ctx: RouteContext) => void | Response | Promise<void | Response>;
+  /** Runs after the handler; returning a `Response` replaces it. */
+  after?: (
+    ctx: RouteContext,
+    response: Response,
+  ) => void | Response | Promise<void | Response>;
+}
+
+/**
+ * Maps a thrown error to a response. Return nothing to leave the error
+ * to the next handler (and finally the built-in one).
+ */
+export type ErrorHandler = (
+  error: unknown,
+  ctx: RouteContext,
+) => Response | undefined | Promise<Response | undefined>;
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
 interface Route {
   method: HttpMethod;
@@ -30,7 +136,25 @@ interface Route {
   regex: RegExp;
   /** Ordered list of param names pulled from the pattern. */
   paramNames: string[];
-  handler: RouteHandler;
+  handler: RouteHandler<any, any>;
+  spec: RouteSpec<any, any>;
+  /** Group middleware in effect when the route was registered. */
+  middleware: Middleware[];
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Client-supplied request ids are reused only if they look like this. */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const requestScope = new AsyncLocalStorage<RouteContext>();
+
+/**
+ * The context of the request being handled, from anywhere in its async
+ * call chain (e.g. a service several calls deep); `undefined` outside one.
+ */
+export function currentRequest(): RouteContext | undefined {
+  return requestScope.getStore();
 }
 
 // ─── Router ──────────────────────────────────────────────────────────
@@ -38,27 +162,67 @@ interface Route {
 export class Router {
   private routes: Route[] = [];
   private prefix = "";
+  private globalMiddleware: Middleware[] = [];
+  /** Middleware of the groups currently being registered. */
+  private groupMiddleware: Middleware[] = [];
+  private groupDepth = 0;
+  private errorHandlers: ErrorHandler[] = [];
 
   // ── Registration helpers ─────────────────────────────────────────
 
-  get(path: string, handler: RouteHandler) {
-    this.addRoute("GET", path, handler);
+  get<B = unknown, Q = Record<string, string>>(
+    path: string,
+    ...args: RouteArgs<B, Q>
+  ) {
+    this.addRoute("GET", path, args);
+  }
+
+  post<B = unknown, Q = Record<string, string>>(
+    path: string,
+    ...args: RouteArgs<B, Q>
+  ) {
+    this.addRoute("POST", path, args);
+  }
+
+  put<B = unknown, Q = Record<string, string>>(
+    path: string,
+    ...args: RouteArgs<B, Q>
+  ) {
+    this.addRoute("PUT", path, args);
   }
 
-  post(path: string, handler: RouteHandler) {
-    this.addRoute("POST", path, handler);
+  patch<B = unknown, Q = Record<string, string>>(
+    path: string,
+    ...args: RouteArgs<B, Q>
+  ) {
+    this.addRoute("PATCH", path, args);
   }
 
-  put(path: string, handler: RouteHandler) {
-    this.addRoute("PUT", path, handler);
+  delete<B = unknown, Q = Record<string, string>>(
+    path: string,
+    ...args: RouteArgs<B, Q>
+  ) {
+    this.addRoute("DELETE", path, args);
   }
 
-  patch(path: string, handler: RouteHandler) {
-    this.addRoute("PATCH", path, handler);
+  // ── Middleware ───────────────────────────────────────────────────
+
+  /**
+   * Add middleware. Outside a group it applies to every request; inside
+   * a group, to the routes the group registers after this call.
+   */
+  use(middleware: Middleware) {
+    if (this.groupDepth === 0) this.globalMiddleware.push(middleware);
+    else this.groupMiddleware.push(middleware);
   }
 
-  delete(path: string, handler: RouteHandler) {
-    this.addRoute("DELETE", path, handler);
+  /**
+   * Add an error handler. Handlers are tried in the order they were
+   * added; errors none of them answer get the built-in mapping:
+   * `HttpError` → its status, anything else → a generic 500.
+   */
+  onError(handler: ErrorHandler) {
+    this.errorHandlers.push(handler);
   }
 
   // ── Grouping ─────────────────────────────────────────────────────
@@ -75,61 +239,209 @@ export class Router {
    */
   group(prefix: string, callback: (router: Router) => void) {
     const prev = this.prefix;
+    const middlewareCount = this.groupMiddleware.length;
     this.prefix = prev + prefix;
-    callback(this);
-    this.prefix = prev;
+    this.groupDepth++;
+    try {
+      callback(this);
+    } finally {
+      this.prefix = prev;
+      this.groupMiddleware = this.groupMiddleware.slice(0, middlewareCount);
+      this.groupDepth--;
+    }
+  }
+
+  /** Every registered route with its spec, in registration order. */
+  listRoutes(): RouteInfo[] {
+    return this.routes.map(({ method, pattern, paramNames, spec }) => ({
+      method,
+      pattern,
+      paramNames,
+      spec,
+    }));
   }
 
   // ── Request handling ─────────────────────────────────────────────
 
   /**
-   * Match the incoming request to a registered route and invoke its
-   * handler.  Returns a `404` response when no route matches.
+   * Match the incoming request to a registered route and run it through
+   * its middleware. Returns a `404` response when no route matches.
    */
   async handle(request: Request): Promise<Response> {
     const url = new URL(request.url);
+    const ctx = this.createContext(request, url);
+    return requestScope.run(ctx, () => this.respond(request, url, ctx));
+  }
+
+  // ── Internals ────────────────────────────────────────────────────
+
+  private async respond(
+    request: Request,
+    url: URL,
+    ctx: RouteContext,
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      const route = this.match(request, url, ctx);
+      response = await this.runPipeline(
+        ctx,
+        route
+          ? [...this.globalMiddleware, ...route.middleware]
+          : this.globalMiddleware,
+        route
+          ? () => this.runRoute(route, ctx)
+          : () => errorResponse(ctx, 404, "Not Found"),
+      );
+    } catch (err) {
+      // Only reached when an `after` hook throws.
+      response = await this.handleError(err, ctx);
+    }
+
+    response.headers.set("X-Request-Id", ctx.requestId);
+    return response;
+  }
+
+  private createContext(request: Request, url: URL): RouteContext {
+    // Parse query string
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+
+    const incomingId = request.headers.get("X-Request-Id");
+    let body: Promise<unknown> | null = null;
+
+    return {
+      request,
+      params: {},
+      query,
+      body: <T = unknown>() => {
+        body ??= request.json().catch(() => {
+          throw new HttpError(400, "Request body must be valid JSON.");
+        });
+        return body as Promise<T>;
+      },
+      requestId:
+        incomingId && REQUEST_ID_PATTERN.test(incomingId)
+          ? incomingId
+          : crypto.randomUUID(),
+      state: {},
+    };
+  }
+
+  /** Find the route for a request, filling in `ctx.params` and `ctx.route`. */
+  private match(request: Request, url: URL, ctx: RouteContext): Route | null {
     const method = request.method.toUpperCase() as HttpMethod;
-    const pathname = url.pathname;
 
     for (const route of this.routes) {
       if (route.method !== method) continue;
 
-      const match = route.regex.exec(pathname);
+      const match = route.regex.exec(url.pathname);
       if (!match) continue;
 
       // Build params from named capture groups
-      const params: Record<string, string> = {};
       route.paramNames.forEach((name, i) => {
-        params[name] = match[i + 1]!;
+        ctx.params[name] = match[i + 1]!;
       });
+      ctx.route = route.pattern;
+      return route;
+    }
+    return null;
+  }
 
-      // Parse query string
-      const query: Record<string, string> = {};
-      url.searchParams.forEach((value, key) => {
-        query[key] = value;
-      });
+  /**
+   * Run `before` hooks in order, then the handler, then the `after` hooks
+   * of every middleware that ran, in reverse. Errors from the hooks or
+   * handler become error responses, which still pass through `after`.
+   */
+  private async runPipeline(
+    ctx: RouteContext,
+    middleware: Middleware[],
+    handler: () => Response | Promise<Response>,
+  ): Promise<Response> {
+    const ran: Middleware[] = [];
+    let response: Response | undefined;
 
-      const ctx: RouteContext = {
-        request,
-        params,
-        query,
-        body: <T = unknown>() => request.json() as Promise<T>,
-      };
+    try {
+      for (const m of middleware) {
+        ran.push(m);
+        const early = await m.before?.(ctx);
+        if (early) {
+          response = early;
+          break;
+        }
+      }
+      response ??= await handler();
+    } catch (err) {
+      response = await this.handleError(err, ctx);
+    }
 
-      return route.handler(ctx);
+    for (const m of ran.reverse()) {
+      response = (await m.after?.(ctx, response)) ?? response;
     }
+    return response;
+  }
 
-    return Response.json({ error: "Not Found" }, { status: 404 });
+  /** Validate the request against the route's schemas, then run it. */
+  private async runRoute(route: Route, ctx: RouteContext): Promise<Response> {
+    const { body: bodySchema, query: querySchema } = route.spec;
+    if (!bodySchema && !querySchema) return route.handler(ctx);
+
+    const validated = validateRequest(route.spec, {
+      body: bodySchema ? await ctx.body() : undefined,
+      query: ctx.query,
+    });
+    const typed: RouteContext<unknown, unknown> = ctx;
+    typed.query = validated.query;
+    if (bodySchema) {
+      typed.body = <T>() => Promise.resolve(validated.body as T);
+    }
+    return route.handler(typed);
   }
 
-  // ── Internals ────────────────────────────────────────────────────
+  private async handleError(
+    err: unknown,
+    ctx: RouteContext,
+  ): Promise<Response> {
+    for (const handler of this.errorHandlers) {
+      try {
+        const response = await handler(err, ctx);
+        if (response) return response;
+      } catch (handlerErr) {
+        console.error("Error in error handler:", handlerErr);
+      }
+    }
+
+    if (err instanceof HttpError) {
+      return errorResponse(ctx, err.status, err.message, err.details);
+    }
+    // The details stay in the log; the request id ties the two together.
+    console.error(
+      `Unhandled error in ${ctx.request.method} ${ctx.route ?? ctx.request.url} (${ctx.requestId}):`,
+      err,
+    );
+    return errorResponse(ctx, 500, "Internal Server Error");
+  }
 
-  private addRoute(method: HttpMethod, path: string, handler: RouteHandler) {
+  private addRoute(
+    method: HttpMethod,
+    path: string,
+    args: RouteArgs<any, any>,
+  ) {
+    const [spec, handler] = args.length === 1 ? [{}, args[0]] : args;
     // Normalise: strip trailing slash (but keep "/" as-is)
     const raw = this.prefix + path;
     const fullPath = raw.length > 1 ? raw.replace(/\/+$/, "") : raw;
     const { regex, paramNames } = this.compilePath(fullPath);
-    this.routes.push({ method, pattern: fullPath, regex, paramNames, handler });
+    this.routes.push({
+      method,
+      pattern: fullPath,
+      regex,
+      paramNames,
+      handler,
+      spec,
+      middleware: [...this.groupMiddleware],
+    });
   }
 
   /**
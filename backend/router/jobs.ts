@@ -0,0 +1,145 @@
+/**
+ * Background job API routes.
+ *
+ * GET  /jobs             — the caller's recent jobs, newest first
+ * GET  /jobs/:id         — status, per-chunk progress and result
+ * POST /jobs/:id/cancel  — cancel a queued or running job
+ *
+ * Jobs are created by the `/jobs` variants of the heavy analyze routes
+ * (e.g. `POST /analyze/criticize/jobs`), which answer `202` with the
+ * job and a `Location` header to poll. With API keys on, a key only
+ * sees the jobs it created.
+ */
+
+import { HttpError, s, type RouteContext, type Router } from "./index";
+import { requestApiKey } from "./middleware";
+import { JOB_STATUSES, type Job, type JobSummary } from "../db/jobstore";
+import type { JobQueue } from "../services/jobs";
+
+// ─── Response schemas ────────────────────────────────────────────────
+
+const jobFields = {
+  id: s.string(),
+  kind: s.string().describe("The analysis the job runs, e.g. `criticize`."),
+  status: s.enum(JOB_STATUSES),
+  error: s.string().nullable().describe("Why the job failed or was cancelled."),
+  createdAt: s.string(),
+  startedAt: s.string().nullable(),
+  finishedAt: s.string().nullable(),
+};
+
+const progressFields = {
+  completed: s.integer().describe("Chunks finished so far."),
+  total: s
+    .integer()
+    .nullable()
+    .describe("Chunks in the run; null until the first one finishes."),
+};
+
+const jobSummary = s.object({
+  ...jobFields,
+  progress: s.object(progressFields),
+});
+
+/** A job as the API returns it: no input, plus each chunk's results. */
+export const jobResponse = s.object({
+  ...jobFields,
+  progress: s.object({
+    ...progressFields,
+    chunks: s
+      .array(
+        s.object({
+          index: s.integer(),
+          total: s.integer(),
+          results: s.array(s.any()),
+        }),
+      )
+      .describe("Each finished chunk's results, in chunk order."),
+  }),
+  result: s
+    .any()
+    .nullable()
+    .describe("What the analyze route would have returned, once succeeded."),
+});
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function toResponse(job: Job) {
+  const { input: _input, apiKeyId: _apiKeyId, chunks, ...fields } = job;
+  return { ...fields, progress: { ...job.progress, chunks } };
+}
+
+/** `202` for a job just queued, pointing at where to poll it. */
+export function jobAccepted(job: Job): Response {
+  return Response.json(toResponse(job), {
+    status: 202,
+    headers: { Location: `/jobs/${job.id}` },
+  });
+}
+
+/** The caller's job, or a 404 for unknown ids and other keys' jobs. */
+function findJob(queue: JobQueue, ctx: RouteContext): Job {
+  const job = queue.get(ctx.params.id!);
+  const key = requestApiKey(ctx);
+  if (!job || (key && job.apiKeyId !== key.id)) {
+    throw new HttpError(404, "Job not found.");
+  }
+  return job;
+}
+
+/**
+ * Register the job endpoints.
+ *
+ * Usage:
+ * ```ts
+ * import { registerJobsRoutes } from "./jobs";
+ * registerJobsRoutes(router, new JobQueue(new JobStore()));
+ * ```
+ */
+export function registerJobsRoutes(router: Router, queue: JobQueue) {
+  router.group("/jobs", (r) => {
+    // ── GET /jobs ────────────────────────────────────────────────
+    r.get(
+      "/",
+      {
+        response: s.array(jobSummary),
+        operationId: "listJobs",
+        summary: "Recent jobs, newest first.",
+      },
+      (ctx) => {
+        const jobs: JobSummary[] = queue.list(requestApiKey(ctx)?.id);
+        return Response.json(jobs);
+      },
+    );
+
+    // ── GET /jobs/:id ────────────────────────────────────────────
+    r.get(
+      "/:id",
+      {
+        response: jobResponse,
+        operationId: "getJob",
+        summary: "A job's status, per-chunk progress and result.",
+      },
+      (ctx) => Response.json(toResponse(findJob(queue, ctx))),
+    );
+
+    // ── POST /jobs/:id/cancel ────────────────────────────────────
+    // Cancelling a cancelled job is a no-op; one that has already
+    // succeeded or failed gets a 409.
+    r.post(
+      "/:id/cancel",
+      {
+        response: jobResponse,
+        operationId: "cancelJob",
+        summary: "Cancel a queued or running job.",
+      },
+      (ctx) => {
+        const job = queue.cancel(findJob(queue, ctx).id)!;
+        if (job.status !== "cancelled") {
+          throw new HttpError(409, `Job already ${job.status}.`);
+        }
+        return Response.json(toResponse(job));
+      },
+    );
+  });
+}
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Router, type RouteContext } from "./index";
+import {
+  apiKeyAuth,
+  quotaExceededMessage,
+  requestApiKey,
+  type ApiKeyAuthOptions,
+} from "./middleware";
+import { ApiKeyStore } from "../db/apikeys";
+
+let store: ApiKeyStore;
+
+beforeEach(() => {
+  store = new ApiKeyStore(":memory:");
+});
+
+/** A router with a public route, an LLM route and a plain one behind `apiKeyAuth`. */
+function app(options: ApiKeyAuthOptions = {}) {
+  const router = new Router();
+  router.use(
+    apiKeyAuth(store, {
+      publicRoutes: ["/open"],
+      usesLLM: (route) => route === "/llm",
+      ...options,
+    }),
+  );
+  const whoAmI = (ctx: RouteContext) =>
+    Response.json({ key: requestApiKey(ctx)?.name ?? null });
+  router.get("/open", whoAmI);
+  router.get("/plain", whoAmI);
+  router.get("/llm", whoAmI);
+
+  return (path: string, headers: Record<string, string> = {}) =>
+    router.handle(new Request(`http://localhost${path}`, { headers }));
+}
+
+const bearer = (secret: string) => ({ Authorization: `Bearer ${secret}` });
+
+describe("apiKeyAuth", () => {
+  test("requires a valid key except on public routes", async () => {
+    const request = app();
+    const { key, secret } = store.create({ name: "ci" });
+
+    const missing = await request("/plain");
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("WWW-Authenticate")).toBe("Bearer");
+    expect((await request("/plain", bearer("nope"))).status).toBe(401);
+
+    expect(await (await request("/open")).json()).toEqual({ key: null });
+    expect(await (await request("/plain", bearer(secret))).json()).toEqual({
+      key: "ci",
+    });
+    expect(
+      (await request("/plain", { "X-API-Key": ` ${secret} ` })).status,
+    ).toBe(200);
+
+    store.revoke(key.id);
+    expect((await request("/plain", bearer(secret))).status).toBe(401);
+  });
+
+  test("limits requests per minute per key", async () => {
+    const request = app({ rateLimit: 2 });
+    const { secret } = store.create({ name: "ci" });
+    const { secret: roomy } = store.create({ name: "roomy", rateLimit: 3 });
+
+    expect((await request("/plain", bearer(secret))).status).toBe(200);
+    expect((await request("/plain", bearer(secret))).status).toBe(200);
+    const limited = await request("/plain", bearer(secret));
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+
+    for (let i = 0; i < 3; i++) {
+      expect((await request("/plain", bearer(roomy))).status).toBe(200);
+    }
+  });
+
+  test("refuses LLM routes once the daily quota is used up", async () => {
+    const request = app({ dailyQuota: 2 });
+    const { key, secret } = store.create({ name: "ci" });
+
+    expect(store.tryRecordCall(key.id, 2)).toBe(true);
+    expect((await request("/llm", bearer(secret))).status).toBe(200);
+    expect(store.tryRecordCall(key.id, 2)).toBe(true);
+    expect(store.tryRecordCall(key.id, 2)).toBe(false);
+    expect(store.usageToday(key.id)).toBe(2);
+
+    const refused = await request("/llm", bearer(secret));
+    expect(refused.status).toBe(429);
+    expect(await refused.json()).toMatchObject({
+      error: quotaExceededMessage(2),
+    });
+    expect((await request("/plain", bearer(secret))).status).toBe(200);
+  });
+
+  test("counts pending calls against the quota", async () => {
+    const pending = new Map<string, number>();
+    const request = app({
+      dailyQuota: 3,
+      pendingCalls: (keyId) => pending.get(keyId) ?? 0,
+    });
+    const { key, secret } = store.create({ name: "ci" });
+
+    store.recordCalls(key.id);
+    pending.set(key.id, 1);
+    expect((await request("/llm", bearer(secret))).status).toBe(200);
+    pending.set(key.id, 2);
+    expect((await request("/llm", bearer(secret))).status).toBe(429);
+  });
+
+  test("lets a key's own quota override the default", async () => {
+    const request = app({ dailyQuota: 1 });
+    const { key, secret } = store.create({ name: "ci", dailyQuota: 5 });
+
+    store.recordCalls(key.id, 4);
+    expect((await request("/llm", bearer(secret))).status).toBe(200);
+    store.recordCalls(key.id);
+    expect((await request("/llm", bearer(secret))).status).toBe(429);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Shared middleware for the `Router` pipeline.
+ *
+ * Usage:
+ * ```ts
+ * router.use(cors({ origins: ["http://localhost:9000"] }));
+ * router.use(apiKeyAuth(new ApiKeyStore(), { publicRoutes: ["/openapi.json"] }));
+ * ```
+ */
+
+import { errorResponse, type Middleware, type RouteContext } from "./index";
+import {
+  msUntilQuotaReset,
+  type ApiKey,
+  type ApiKeyStore,
+} from "../db/apikeys";
+
+// ─── CORS ────────────────────────────────────────────────────────────
+
+export interface CorsOptions {
+  /** Origins allowed to call the API; `["*"]` (the default) allows any. */
+  origins?: string[];
+  /** Response headers the browser may read, besides `X-Request-Id`. */
+  exposeHeaders?: string[];
+}
+
+/**
+ * Answer CORS preflight requests and add CORS headers to every
+ * response, errors included. With an origin list, only those origins
+ * get an `Access-Control-Allow-Origin` header (so browsers elsewhere
+ * can't read the responses).
+ */
+export function cors(options: CorsOptions = {}): Middleware {
+  const origins = options.origins ?? ["*"];
+  const allowAny = origins.includes("*");
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers":
+      "Content-Type, Authorization, X-API-Key, X-Request-Id",
+    "Access-Control-Expose-Headers": [
+      ...(options.exposeHeaders ?? []),
+      "X-Request-Id",
+    ].join(", "),
+  };
+
+  return {
+    before: (ctx) => {
+      if (ctx.request.method === "OPTIONS") {
+        return new Response(null, { status: 204 });
+      }
+    },
+    after: (ctx, response) => {
+      const origin = ctx.request.headers.get("Origin");
+      if (allowAny) {
+        response.headers.set("Access-Control-Allow-Origin", "*");
+      } else {
+        response.headers.append("Vary", "Origin");
+        if (!origin || !origins.includes(origin)) return;
+        response.headers.set("Access-Control-Allow-Origin", origin);
+      }
+      for (const [key, value] of Object.entries(headers)) {
+        response.headers.set(key, value);
+      }
+    },
+  };
+}
+
+// ─── API key auth ────────────────────────────────────────────────────
+
+export interface ApiKeyAuthOptions {
+  /** Route patterns callable without a key, e.g. `/openapi.json`. */
+  publicRoutes?: string[];
+  /** Requests per minute for keys without their own limit (default 60). */
+  rateLimit?: number;
+  /** LLM calls per UTC day for keys without their own quota (default: none). */
+  dailyQuota?: number;
+  /**
+   * Whether a route calls the model. Once a key's quota is used up these
+   * routes answer 429; the rest keep working.
+   */
+  usesLLM?: (route: string) => boolean;
+  /**
+   * Calls a key has committed to but not made yet (e.g. one for each of
+   * its queued and running jobs); they count against its quota.
+   */
+  pendingCalls?: (keyId: string) => number;
+}
+
+/** The key the request authenticated with (set by `apiKeyAuth`). */
+export function requestApiKey(
+  ctx: Pick<RouteContext, "state"> | undefined,
+): ApiKey | undefined {
+  return ctx?.state.apiKey as ApiKey | undefined;
+}
+
+/** The message for a key whose daily LLM quota is used up. */
+export function quotaExceededMessage(quota: number): string {
+  return `Daily quota of ${quota} LLM calls used up; it resets at 00:00 UTC.`;
+}
+
+/**
+ * Require an API key (`Authorization: Bearer <key>` or `X-API-Key`) on
+ * every request but public routes: `401` when it's missing or invalid,
+ * `429` with `Retry-After` when the key is over its rate limit or, for
+ * LLM routes, its daily quota. The key is left for handlers in
+ * `ctx.state` (see `requestApiKey`). This only turns away requests that
+ * can't make any call; each call is counted, and refused once the quota
+ * runs out mid-request, where it's made (`ApiKeyStore.tryRecordCall`).
+ */
+export function apiKeyAuth(
+  store: ApiKeyStore,
+  options: ApiKeyAuthOptions = {},
+): Middleware {
+  const publicRoutes = new Set(options.publicRoutes ?? []);
+  const defaultRateLimit = options.rateLimit ?? 60;
+  /** Request times in the last minute, per key id. */
+  const windows = new Map<string, number[]>();
+
+  return {
+    before: (ctx) => {
+      if (ctx.route && publicRoutes.has(ctx.route)) return;
+
+      const secret = readApiKey(ctx.request);
+      const key = secret ? store.verify(secret) : null;
+      if (!key) {
+        const response = errorResponse(
+          ctx,
+          401,
+          secret
+            ? "Invalid or revoked API key."
+            : "Missing API key. Send it as `Authorization: Bearer <key>`.",
+        );
+        response.headers.set("WWW-Authenticate", "Bearer");
+        return response;
+      }
+
+      const now = Date.now();
+      const limit = key.rateLimit ?? defaultRateLimit;
+      const recent = (windows.get(key.id) ?? []).filter(
+        (t) => now - t < 60_000,
+      );
+      if (recent.length >= limit) {
+        windows.set(key.id, recent);
+        return tooManyRequests(
+          ctx,
+          `Rate limit of ${limit} requests per minute exceeded.`,
+          recent[0]! + 60_000 - now,
+        );
+      }
+      recent.push(now);
+      windows.set(key.id, recent);
+
+      const quota = key.dailyQuota ?? options.dailyQuota;
+      if (
+        quota !== undefined &&
+        ctx.route &&
+        options.usesLLM?.(ctx.route) &&
+        store.usageToday(key.id) + (options.pendingCalls?.(key.id) ?? 0) >=
+          quota
+      ) {
+        return tooManyRequests(
+          ctx,
+          quotaExceededMessage(quota),
+          msUntilQuotaReset(now),
+        );
+      }
+
+      ctx.state.apiKey = key;
+    },
+  };
+}
+
+function readApiKey(request: Request): string | null {
+  const auth = request.headers.get("Authorization");
+  const bearer = auth?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? request.headers.get("X-API-Key")?.trim() ?? null;
+}
+
+/** A `429` telling the client when to retry. */
+export function tooManyRequests(
+  ctx: RouteContext,
+  message: string,
+  retryAfterMs: number,
+): Response {
+  const response = errorResponse(ctx, 429, message);
+  response.headers.set(
+    "Retry-After",
+    String(Math.max(1, Math.ceil(retryAfterMs / 1000))),
+  );
+  return response;
+}
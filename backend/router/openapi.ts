@@ -0,0 +1,229 @@
+/**
+ * OpenAPI 3.0 description of the registered routes.
+ *
+ * Built from what each route declared at registration (`RouteSpec`):
+ * body and query schemas, response schema, summary and operation id.
+ * Routes without a spec are still listed, with untyped payloads. With
+ * `auth`, every route but the public ones requires an API key.
+ *
+ * Usage:
+ * ```ts
+ * const doc = buildOpenApi(router.listRoutes(), { title: "API", version: "1.0.0" });
+ * const secured = buildOpenApi(routes, info, { auth: { publicRoutes: ["/openapi.json"] } });
+ * router.get("/openapi.json", () => Response.json(doc));
+ * ```
+ */
+
+import type { HttpMethod, RouteInfo } from "./index";
+import { s, type SchemaSpec } from "./schema";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+/** A schema, or a reference to one in `components.schemas`. */
+export type OpenApiSchema = SchemaSpec | { $ref: string };
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  description?: string;
+  schema: SchemaSpec;
+}
+
+export interface OpenApiContent {
+  [mediaType: string]: { schema: OpenApiSchema };
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary?: string;
+  tags: string[];
+  parameters: OpenApiParameter[];
+  requestBody?: { required: boolean; content: OpenApiContent };
+  responses: Record<string, { description: string; content?: OpenApiContent }>;
+  /** `[]` on public routes, which need no API key. */
+  security?: OpenApiSecurity[];
+}
+
+/** Any one of the listed schemes satisfies the requirement. */
+export type OpenApiSecurity = Record<string, string[]>;
+
+export interface OpenApiSecurityScheme {
+  type: "http" | "apiKey";
+  scheme?: string;
+  in?: "header";
+  name?: string;
+  description?: string;
+}
+
+export interface OpenApiOptions {
+  /** Describe the API key auth of `apiKeyAuth` (see `./middleware`). */
+  auth?: {
+    /** Route patterns callable without a key. */
+    publicRoutes?: string[];
+  };
+}
+
+export interface OpenApiDocument {
+  openapi: "3.0.3";
+  info: OpenApiInfo;
+  paths: Record<
+    string,
+    Partial<Record<Lowercase<HttpMethod>, OpenApiOperation>>
+  >;
+  components: {
+    schemas: Record<string, SchemaSpec>;
+    securitySchemes?: Record<string, OpenApiSecurityScheme>;
+  };
+  security?: OpenApiSecurity[];
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** The JSON body of every error response (see `errorResponse`). */
+const errorBody = s.object({
+  error: s.string(),
+  requestId: s.string(),
+  details: s
+    .any(
+      "For validation errors, the failing fields: `{ in, path, message }[]`.",
+    )
+    .optional(),
+});
+
+/** The two ways `apiKeyAuth` accepts a key. */
+const securitySchemes: Record<string, OpenApiSecurityScheme> = {
+  bearerAuth: {
+    type: "http",
+    scheme: "bearer",
+    description: "API key as `Authorization: Bearer <key>`.",
+  },
+  apiKeyHeader: {
+    type: "apiKey",
+    in: "header",
+    name: "X-API-Key",
+    description: "API key as `X-API-Key: <key>`.",
+  },
+};
+
+// ─── Builder ─────────────────────────────────────────────────────────
+
+export function buildOpenApi(
+  routes: RouteInfo[],
+  info: OpenApiInfo,
+  options: OpenApiOptions = {},
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+  const usedIds = new Set<string>();
+  const publicRoutes = new Set(options.auth?.publicRoutes ?? []);
+
+  for (const route of routes) {
+    const { method, pattern, paramNames, spec } = route;
+    const operationId = spec.operationId ?? defaultOperationId(method, pattern);
+    if (usedIds.has(operationId)) {
+      throw new Error(
+        `Duplicate operationId "${operationId}" (${method} ${pattern}).`,
+      );
+    }
+    usedIds.add(operationId);
+
+    const parameters: OpenApiParameter[] = paramNames.map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    }));
+    const query = spec.query?.spec;
+    for (const [name, schema] of Object.entries(query?.properties ?? {})) {
+      parameters.push({
+        name,
+        in: "query",
+        required: query?.required?.includes(name) ?? false,
+        description: schema.description,
+        schema,
+      });
+    }
+
+    let requestBody: OpenApiOperation["requestBody"];
+    if (spec.body) {
+      requestBody = {
+        required: !spec.body.isOptional,
+        content: { "application/json": { schema: spec.body.spec } },
+      };
+    } else if (spec.consumes) {
+      requestBody = {
+        required: true,
+        content: {
+          [spec.consumes]: { schema: { type: "string", format: "binary" } },
+        },
+      };
+    }
+
+    const path = pattern.replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, "{$1}");
+    paths[path] ??= {};
+    paths[path][method.toLowerCase() as Lowercase<HttpMethod>] = {
+      operationId,
+      summary: spec.summary,
+      tags: [pattern.split("/")[1] || "default"],
+      parameters,
+      requestBody,
+      responses: {
+        [String(spec.status ?? 200)]: successResponse(spec),
+        default: {
+          description: "Error",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Error" },
+            },
+          },
+        },
+      },
+      ...(options.auth && publicRoutes.has(pattern) && { security: [] }),
+    };
+  }
+
+  const doc: OpenApiDocument = {
+    openapi: "3.0.3",
+    info,
+    paths,
+    components: { schemas: { Error: errorBody.spec } },
+  };
+  if (options.auth) {
+    doc.components.securitySchemes = securitySchemes;
+    doc.security = Object.keys(securitySchemes).map((name) => ({ [name]: [] }));
+  }
+  return doc;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function successResponse(spec: RouteInfo["spec"]) {
+  if (spec.status === 204) return { description: "No content" };
+  const mediaType = spec.produces ?? "application/json";
+  return {
+    description: "Success",
+    content: { [mediaType]: { schema: spec.response?.spec ?? {} } },
+  };
+}
+
+/** e.g. `GET /docs/:id` → `getDocsById`, `POST /analyze/chunk` → `postAnalyzeChunk`. */
+function defaultOperationId(method: HttpMethod, pattern: string): string {
+  const words = pattern
+    .split("/")
+    .filter(Boolean)
+    .map((segment) =>
+      segment.startsWith(":") ? `by-${segment.slice(1)}` : segment,
+    )
+    .join("-")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+  return [method.toLowerCase(), ...words]
+    .map((w, i) => (i === 0 ? w : w[0]!.toUpperCase() + w.slice(1)))
+    .join("");
+}
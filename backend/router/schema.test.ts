@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { Router } from "./index";
+import { ValidationError, s, validateRequest } from "./schema";
+
+const body = s.object({
+  text: s.string({ min: 1 }),
+  limit: s.integer({ min: 1, max: 10 }).optional(),
+  mode: s.enum(["fast", "full"] as const).optional(),
+  tags: s.array(s.string(), { max: 2 }).optional(),
+  parent: s.string().nullable().optional(),
+});
+
+const query = s.object({
+  page: s.integer({ min: 1 }).optional(),
+  draft: s.boolean().optional(),
+});
+
+/** The `{ in, path, message }` of every failing field. */
+function fieldErrors(input: Parameters<typeof validateRequest>[1]) {
+  try {
+    validateRequest({ body, query }, input);
+  } catch (err) {
+    expect(err).toBeInstanceOf(ValidationError);
+    return (err as ValidationError).fields;
+  }
+  throw new Error("Expected the request to fail validation.");
+}
+
+describe("validateRequest", () => {
+  test("returns the typed values without unknown keys", () => {
+    expect(
+      validateRequest(
+        { body, query },
+        {
+          body: { text: "hi", limit: 3, parent: null, extra: true },
+          query: { page: "2", draft: "false" },
+        },
+      ),
+    ).toEqual({
+      body: { text: "hi", limit: 3, parent: null },
+      query: { page: 2, draft: false },
+    });
+  });
+
+  test("reports every failing field of body and query", () => {
+    expect(
+      fieldErrors({
+        body: { text: " ", limit: 2.5, mode: "slow", tags: ["a", 1, "c"] },
+        query: { page: "zero", draft: "yes" },
+      }),
+    ).toEqual([
+      { in: "query", path: "page", message: "must be a number (got string)" },
+      { in: "query", path: "draft", message: "must be a boolean (got string)" },
+      { in: "body", path: "text", message: "must not be empty" },
+      { in: "body", path: "limit", message: "must be an integer" },
+      { in: "body", path: "mode", message: "must be one of: fast, full" },
+      { in: "body", path: "tags", message: "must have at most 2 items" },
+      { in: "body", path: "tags[1]", message: "must be a string (got number)" },
+    ]);
+  });
+
+  test("requires an object body and its required fields", () => {
+    expect(fieldErrors({ body: [], query: {} })).toEqual([
+      { in: "body", path: "body", message: "must be an object (got array)" },
+    ]);
+    expect(fieldErrors({ body: { limit: 11 }, query: {} })).toEqual([
+      { in: "body", path: "text", message: "is required" },
+      { in: "body", path: "limit", message: "must be at most 10" },
+    ]);
+  });
+});
+
+describe("Router validation", () => {
+  const router = new Router();
+  router.post("/echo", { body }, async (ctx) =>
+    Response.json(await ctx.body()),
+  );
+
+  const post = (payload: string) =>
+    router.handle(
+      new Request("http://localhost/echo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: payload,
+      }),
+    );
+
+  test("passes the validated body to the handler", async () => {
+    const response = await post(JSON.stringify({ text: "hi", extra: 1 }));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: "hi" });
+  });
+
+  test("answers 400 with the failing fields", async () => {
+    const response = await post(JSON.stringify({ limit: 0 }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: "Invalid request: text is required; limit must be at least 1.",
+      details: [
+        { in: "body", path: "text", message: "is required" },
+        { in: "body", path: "limit", message: "must be at least 1" },
+      ],
+    });
+  });
+});
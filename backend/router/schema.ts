@@ -0,0 +1,343 @@
+/**
+ * Request schemas for `Router` routes.
+ *
+ * A route declares the shape of its JSON body and/or query string when
+ * it's registered; the router validates the request before the handler
+ * runs and answers `400` with every failing field otherwise. Inside the
+ * handler `ctx.body()` resolves to the validated, typed value (unknown
+ * object keys are dropped) and `ctx.query` is typed likewise.
+ *
+ * Each schema also carries a JSON-Schema `spec` describing it.
+ *
+ * Usage:
+ * ```ts
+ * const chatBody = s.object({
+ *   query: s.string({ min: 1 }),
+ *   limit: s.integer({ min: 1, max: 50 }).optional(),
+ * });
+ *
+ * router.post("/chat", { body: chatBody }, async (ctx) => {
+ *   const { query, limit } = await ctx.body(); // { query: string; limit?: number }
+ * });
+ * ```
+ */
+
+import { HttpError } from "./errors";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** One failing field. `path` is dotted, e.g. `options.limit` or `items[2].quote`. */
+export interface FieldError {
+  in: "body" | "query";
+  path: string;
+  message: string;
+}
+
+type Issue = Omit<FieldError, "in">;
+
+/** The JSON-Schema subset the schemas describe themselves with. */
+export interface SchemaSpec {
+  type?: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  /** e.g. `binary` for uploads; informational only. */
+  format?: string;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: SchemaSpec;
+  properties?: Record<string, SchemaSpec>;
+  required?: string[];
+  nullable?: boolean;
+}
+
+export interface Schema<T> {
+  readonly spec: SchemaSpec;
+  /** Whether the field may be left out of its parent object. */
+  readonly isOptional: boolean;
+  /** Validate `value`, recording a message per problem under `path`. */
+  check(value: unknown, path: string, issues: Issue[]): T;
+  optional(): Schema<T | undefined>;
+  /** Accept `null` as well (returned as `null`). */
+  nullable(): Schema<T | null>;
+  describe(description: string): Schema<T>;
+}
+
+/** The type a schema validates to. */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+/** A request that failed validation: `400` listing every failing field. */
+export class ValidationError extends HttpError {
+  constructor(readonly fields: FieldError[]) {
+    super(
+      400,
+      `Invalid request: ${fields.map((f) => `${f.path} ${f.message}`).join("; ")}.`,
+      fields,
+    );
+    this.name = "ValidationError";
+  }
+}
+
+// ─── Construction ────────────────────────────────────────────────────
+
+function make<T>(
+  spec: SchemaSpec,
+  check: (value: unknown, path: string, issues: Issue[]) => T,
+  isOptional = false,
+): Schema<T> {
+  return {
+    spec,
+    isOptional,
+    check,
+    optional: () => make<T | undefined>(spec, check, true),
+    nullable: () =>
+      make<T | null>(
+        { ...spec, nullable: true },
+        (value, path, issues) =>
+          value === null ? null : check(value, path, issues),
+        isOptional,
+      ),
+    describe: (description) =>
+      make<T>({ ...spec, description }, check, isOptional),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** `value`'s JSON type, for error messages. */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function numberSchema(
+  type: "number" | "integer",
+  opts: { min?: number; max?: number },
+): Schema<number> {
+  return make(
+    { type, minimum: opts.min, maximum: opts.max },
+    (value, path, issues) => {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({
+          path,
+          message: `must be a number (got ${typeOf(value)})`,
+        });
+      } else if (type === "integer" && !Number.isInteger(value)) {
+        issues.push({ path, message: "must be an integer" });
+      } else if (opts.min !== undefined && value < opts.min) {
+        issues.push({ path, message: `must be at least ${opts.min}` });
+      } else if (opts.max !== undefined && value > opts.max) {
+        issues.push({ path, message: `must be at most ${opts.max}` });
+      }
+      return value as number;
+    },
+  );
+}
+
+// ─── Schemas ─────────────────────────────────────────────────────────
+
+export const s = {
+  string(opts: { min?: number; max?: number } = {}): Schema<string> {
+    return make(
+      { type: "string", minLength: opts.min, maxLength: opts.max },
+      (value, path, issues) => {
+        if (typeof value !== "string") {
+          issues.push({
+            path,
+            message: `must be a string (got ${typeOf(value)})`,
+          });
+        } else if (opts.min !== undefined && value.trim().length < opts.min) {
+          issues.push({
+            path,
+            message:
+              opts.min === 1
+                ? "must not be empty"
+                : `must be at least ${opts.min} characters`,
+          });
+        } else if (opts.max !== undefined && value.length > opts.max) {
+          issues.push({
+            path,
+            message: `must be at most ${opts.max} characters`,
+          });
+        }
+        return value as string;
+      },
+    );
+  },
+
+  number(opts: { min?: number; max?: number } = {}): Schema<number> {
+    return numberSchema("number", opts);
+  },
+
+  integer(opts: { min?: number; max?: number } = {}): Schema<number> {
+    return numberSchema("integer", opts);
+  },
+
+  boolean(): Schema<boolean> {
+    return make({ type: "boolean" }, (value, path, issues) => {
+      if (typeof value !== "boolean") {
+        issues.push({
+          path,
+          message: `must be a boolean (got ${typeOf(value)})`,
+        });
+      }
+      return value as boolean;
+    });
+  },
+
+  /** One of a fixed list of strings. */
+  enum<const T extends string>(values: readonly T[]): Schema<T> {
+    return make({ type: "string", enum: values }, (value, path, issues) => {
+      if (!values.includes(value as T)) {
+        issues.push({ path, message: `must be one of: ${values.join(", ")}` });
+      }
+      return value as T;
+    });
+  },
+
+  array<T>(
+    item: Schema<T>,
+    opts: { min?: number; max?: number } = {},
+  ): Schema<T[]> {
+    return make(
+      {
+        type: "array",
+        items: item.spec,
+        minItems: opts.min,
+        maxItems: opts.max,
+      },
+      (value, path, issues) => {
+        if (!Array.isArray(value)) {
+          issues.push({
+            path,
+            message: `must be an array (got ${typeOf(value)})`,
+          });
+          return [];
+        }
+        if (opts.min !== undefined && value.length < opts.min) {
+          issues.push({
+            path,
+            message: `must have at least ${opts.min} items`,
+          });
+        } else if (opts.max !== undefined && value.length > opts.max) {
+          issues.push({ path, message: `must have at most ${opts.max} items` });
+        }
+        return value.map((v, i) => item.check(v, `${path}[${i}]`, issues));
+      },
+    );
+  },
+
+  /** An object with the given fields; other keys are dropped. */
+  object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+    const properties: Record<string, SchemaSpec> = {};
+    const required: string[] = [];
+    for (const [key, field] of Object.entries(shape)) {
+      properties[key] = field.spec;
+      if (!field.isOptional) required.push(key);
+    }
+
+    return make(
+      { type: "object", properties, required },
+      (value, path, issues) => {
+        if (!isRecord(value)) {
+          issues.push({
+            path: path || "body",
+            message: `must be an object (got ${typeOf(value)})`,
+          });
+          return {} as InferShape<S>;
+        }
+        const result: Record<string, unknown> = {};
+        for (const [key, field] of Object.entries(shape)) {
+          const fieldPath = path ? `${path}.${key}` : key;
+          if (value[key] === undefined) {
+            if (!field.isOptional) {
+              issues.push({ path: fieldPath, message: "is required" });
+            }
+            continue;
+          }
+          result[key] = field.check(value[key], fieldPath, issues);
+        }
+        return result as InferShape<S>;
+      },
+    );
+  },
+
+  /**
+   * Any JSON value, passed through unchecked; `T` only types it. For
+   * payloads validated elsewhere (e.g. document structure maps).
+   */
+  any<T = unknown>(description?: string): Schema<T> {
+    return make({ description }, (value) => value as T);
+  },
+};
+
+// ─── Validation ──────────────────────────────────────────────────────
+
+/**
+ * Query-string values arrive as strings; convert the ones whose schema
+ * expects a number or boolean so they can be checked like JSON.
+ */
+function coerceQuery(
+  spec: SchemaSpec,
+  query: Record<string, string>,
+): Record<string, unknown> {
+  const coerced: Record<string, unknown> = { ...query };
+  for (const [key, raw] of Object.entries(query)) {
+    const type = spec.properties?.[key]?.type;
+    if ((type === "number" || type === "integer") && raw.trim() !== "") {
+      const n = Number(raw);
+      if (!Number.isNaN(n)) coerced[key] = n;
+    } else if (type === "boolean" && (raw === "true" || raw === "false")) {
+      coerced[key] = raw === "true";
+    }
+  }
+  return coerced;
+}
+
+/**
+ * Validate a request's body and query against their schemas.
+ *
+ * @throws {ValidationError} listing every failing field of both.
+ */
+export function validateRequest<B, Q>(
+  schemas: { body?: Schema<B>; query?: Schema<Q> },
+  input: { body: unknown; query: Record<string, string> },
+): { body: B; query: Q } {
+  const fields: FieldError[] = [];
+  const run = <T>(
+    schema: Schema<T>,
+    value: unknown,
+    where: FieldError["in"],
+  ): T => {
+    const issues: Issue[] = [];
+    const result = schema.check(value, "", issues);
+    fields.push(...issues.map((i) => ({ in: where, ...i })));
+    return result;
+  };
+
+  const query = schemas.query
+    ? run(schemas.query, coerceQuery(schemas.query.spec, input.query), "query")
+    : (input.query as Q);
+  const body = schemas.body
+    ? run(schemas.body, input.body, "body")
+    : (input.body as B);
+
+  if (fields.length > 0) throw new ValidationError(fields);
+  return { body, query };
+}
@@ -0,0 +1,85 @@
+/**
+ * Server-Sent Events helper for streaming routes.
+ *
+ * Wraps an async producer in a `text/event-stream` response:
+ *  - `send(event, data)` writes one JSON-encoded event
+ *  - a final `done` event carries the producer's return value
+ *  - a thrown error becomes an `error` event instead of a broken stream
+ *  - the producer's `AbortSignal` fires when the client disconnects
+ *
+ * Comment heartbeats keep the connection from hitting Bun's idle
+ * timeout while a model call is in flight.
+ *
+ * Usage:
+ * ```ts
+ * r.post("/thing/stream", (ctx) =>
+ *   sseResponse(ctx.request, async (send, signal) => {
+ *     send("progress", { step: 1 });
+ *     return { ok: true }; // → event: done
+ *   }),
+ * );
+ * ```
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Must stay below Bun.serve's default 10 s idle timeout. */
+const HEARTBEAT_MS = 5000;
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+export function sseResponse(
+  request: Request,
+  produce: (send: SendEvent, signal: AbortSignal) => Promise<unknown>,
+): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  request.signal.addEventListener("abort", () => abort.abort());
+
+  let closed = false;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send: SendEvent = (event, data) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data ?? null)}\n\n`);
+      };
+
+      heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      try {
+        const result = await produce(send, abort.signal);
+        send("done", result ?? {});
+      } catch (err: any) {
+        console.error("Error in event stream:", err);
+        send("error", { error: err?.message ?? String(err) });
+      } finally {
+        clearInterval(heartbeat);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      clearInterval(heartbeat);
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
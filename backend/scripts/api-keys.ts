@@ -0,0 +1,85 @@
+/**
+ * Manage API keys from the command line.
+ *
+ * Keys are stored hashed, so `create` prints the key once; copy it then.
+ *
+ * Usage:
+ * ```bash
+ * bun run keys create frontend --rpm 120 --daily 500
+ * bun run keys list
+ * bun run keys revoke <id>
+ * ```
+ *
+ * `--rpm` (requests per minute) and `--daily` (LLM calls per UTC day)
+ * default to the server-wide `API_RATE_LIMIT` / `API_DAILY_LLM_QUOTA`.
+ */
+
+import { ApiKeyStore } from "../db/apikeys";
+
+const USAGE = `Usage:
+  bun run keys create <name> [--rpm <n>] [--daily <n>]
+  bun run keys list
+  bun run keys revoke <id>`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+/** The positive integer after `flag`, if given. */
+function flagValue(args: string[], flag: string): number | undefined {
+  const i = args.indexOf(flag);
+  if (i === -1) return undefined;
+  const value = Number(args[i + 1]);
+  if (!Number.isInteger(value) || value <= 0) {
+    fail(`${flag} needs a positive whole number.`);
+  }
+  args.splice(i, 2);
+  return value;
+}
+
+const store = new ApiKeyStore();
+const [command, ...args] = process.argv.slice(2);
+
+switch (command) {
+  case "create": {
+    const rateLimit = flagValue(args, "--rpm");
+    const dailyQuota = flagValue(args, "--daily");
+    const name = args.join(" ").trim();
+    if (!name) fail("Give the key a name.");
+
+    const { key, secret } = store.create({ name, rateLimit, dailyQuota });
+    console.log(`Created key "${key.name}" (${key.id}).`);
+    console.log(`\n  ${secret}\n`);
+    console.log("This is the only time the key is shown; store it now.");
+    break;
+  }
+
+  case "list": {
+    const keys = store.list();
+    if (keys.length === 0) console.log("No API keys yet.");
+    for (const key of keys) {
+      const limits = [
+        `${key.rateLimit ?? "default"} rpm`,
+        `${key.dailyQuota ?? "default"} LLM calls/day`,
+        `${store.usageToday(key.id)} used today`,
+      ].join(", ");
+      const status = key.revokedAt ? `revoked ${key.revokedAt}` : "active";
+      console.log(
+        `${key.id}  ${key.hint}…  ${key.name}  [${status}]  ${limits}`,
+      );
+    }
+    break;
+  }
+
+  case "revoke": {
+    const id = args[0];
+    if (!id) fail("Give the id of the key to revoke.");
+    if (!store.revoke(id)) fail(`No active key with id "${id}".`);
+    console.log(`Revoked ${id}.`);
+    break;
+  }
+
+  default:
+    fail(command ? `Unknown command "${command}".` : "Missing command.");
+}
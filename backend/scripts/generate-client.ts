@@ -0,0 +1,446 @@
+/**
+ * Generate the frontend's typed API client from the registered routes.
+ *
+ * Builds the same OpenAPI document `GET /openapi.json` serves (without
+ * starting the server) and writes one client method per operation, typed
+ * with JSDoc from the routes' body, query and response schemas. The
+ * frontend is plain JavaScript, so the client is too: its own lint and
+ * Prettier cover it. The output follows the frontend's Prettier style and
+ * is run through its Prettier when that's installed.
+ *
+ * Usage:
+ * ```bash
+ * bun run generate:client                      # → frontend/src/services/api-client.js
+ * bun run scripts/generate-client.ts out.js    # somewhere else
+ * ```
+ */
+
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { API_INFO, createApp } from "../app";
+import { ApiKeyStore } from "../db/apikeys";
+import { DocStore } from "../db/docstore";
+import { JobStore } from "../db/jobstore";
+import { DocSyncRegistry } from "../services/doc-sync";
+import { JobQueue } from "../services/jobs";
+import {
+  buildOpenApi,
+  type OpenApiDocument,
+  type OpenApiOperation,
+  type OpenApiSchema,
+} from "../router/openapi";
+import type { SchemaSpec } from "../router/schema";
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+const FRONTEND_DIR = resolve(import.meta.dir, "../../frontend");
+
+const DEFAULT_OUT = resolve(FRONTEND_DIR, "src/services/api-client.js");
+
+const DEFAULT_BASE_URL = "http://localhost:3000";
+
+/** The frontend's Prettier `printWidth`; longer lines are wrapped like it would. */
+const PRINT_WIDTH = 100;
+
+/** The client's fixed part: error type, options and the fetch wrapper. */
+const PRELUDE = `/**
+ * @typedef {object} ErrorBody
+ * @property {string} error
+ * @property {string} requestId
+ * @property {unknown} [details] For validation errors, the failing fields.
+ */
+
+/** A non-2xx response; \`message\` is the server's \`error\`. */
+export class ApiError extends Error {
+  /**
+   * @param {number} status
+   * @param {ErrorBody} body
+   */
+  constructor(status, body) {
+    super(body.error || \`API error \${status}\`)
+    this.name = 'ApiError'
+    this.status = status
+    this.body = body
+  }
+}
+
+/**
+ * @typedef {object} ClientOptions
+ * @property {string} [baseUrl]
+ * @property {Record<string, string>} [headers] Sent with every request, e.g. \`Authorization\`.
+ * @property {typeof fetch} [fetch]
+ */
+
+/**
+ * @typedef {object} RequestOptions
+ * @property {AbortSignal} [signal]
+ * @property {Record<string, string>} [headers]
+ */
+
+/**
+ * @typedef {object} CallInit
+ * @property {AbortSignal} [signal]
+ * @property {Record<string, string>} [headers]
+ * @property {object} [query]
+ * @property {unknown} [json] JSON request body.
+ * @property {BodyInit} [raw] Raw request body (uploads).
+ */
+
+/** @param {ClientOptions} [options] */
+export function createClient(options = {}) {
+  const baseUrl = options.baseUrl ?? ${quote(DEFAULT_BASE_URL)}
+  const fetchFn = options.fetch ?? fetch
+
+  /**
+   * @param {string} method
+   * @param {string} path
+   * @param {CallInit} [init]
+   */
+  async function request(method, path, init = {}) {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(init.query ?? {})) {
+      if (value !== undefined) params.set(key, String(value))
+    }
+    const search = params.toString() ? \`?\${params}\` : ''
+    /** @type {Record<string, string>} */
+    const headers = { ...options.headers, ...init.headers }
+    if (init.json !== undefined) headers['Content-Type'] = 'application/json'
+
+    const res = await fetchFn(\`\${baseUrl}\${path}\${search}\`, {
+      method,
+      headers,
+      body: init.json !== undefined ? JSON.stringify(init.json) : init.raw,
+      signal: init.signal,
+    })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({
+        error: res.statusText,
+        requestId: res.headers.get('X-Request-Id') ?? '',
+      }))
+      throw new ApiError(res.status, body)
+    }
+    return res
+  }
+
+  /**
+   * @param {string} method
+   * @param {string} path
+   * @param {CallInit} [init]
+   */
+  const requestJson = async (method, path, init) => (await request(method, path, init)).json()
+
+  /**
+   * @param {string} method
+   * @param {string} path
+   * @param {CallInit} [init]
+   */
+  const requestVoid = async (method, path, init) => {
+    await request(method, path, init)
+  }
+`;
+
+// ─── JSDoc types from schemas ────────────────────────────────────────
+
+/** Single-quoted string literal, as the frontend's Prettier config wants. */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/** `text` made safe to sit inside a `/** … *\/` comment. */
+function commentText(text: string): string {
+  return text.replace(/\*\//g, "*\\/");
+}
+
+const isIdentifier = (key: string) => /^[A-Za-z_$][\w$]*$/.test(key);
+
+function pascal(name: string): string {
+  return name[0]!.toUpperCase() + name.slice(1);
+}
+
+/** A one-line type expression, for inside a JSDoc tag's braces. */
+function jsType(schema: OpenApiSchema | undefined): string {
+  if (!schema) return "unknown";
+  if ("$ref" in schema) return schema.$ref.split("/").pop()!;
+
+  let type: string;
+  if (schema.enum) {
+    type = schema.enum.map(quote).join(" | ");
+  } else if (schema.type === "string") {
+    type = "string";
+  } else if (schema.type === "number" || schema.type === "integer") {
+    type = "number";
+  } else if (schema.type === "boolean") {
+    type = "boolean";
+  } else if (schema.type === "array") {
+    const item = jsType(schema.items);
+    const isUnion =
+      (schema.items?.enum?.length ?? 0) > 1 || schema.items?.nullable;
+    type = isUnion ? `(${item})[]` : `${item}[]`;
+  } else if (schema.type === "object") {
+    const entries = Object.entries(schema.properties ?? {});
+    type =
+      entries.length === 0
+        ? "Record<string, unknown>"
+        : `{ ${entries
+            .map(([key, prop]) => {
+              const name = isIdentifier(key) ? key : quote(key);
+              const optional = schema.required?.includes(key) ? "" : "?";
+              return `${name}${optional}: ${jsType(prop)}`;
+            })
+            .join("; ")} }`;
+  } else {
+    type = "unknown";
+  }
+  return schema.nullable ? `${type} | null` : type;
+}
+
+/** `schema` if it can be spelled out as `@property` tags, else `null`. */
+function plainObject(schema: OpenApiSchema | undefined): SchemaSpec | null {
+  if (!schema || "$ref" in schema) return null;
+  const keys = Object.keys(schema.properties ?? {});
+  const isPlain =
+    schema.type === "object" &&
+    !schema.nullable &&
+    keys.length > 0 &&
+    keys.every(isIdentifier);
+  return isPlain ? schema : null;
+}
+
+/** The element schema of a non-nullable array of plain objects. */
+function plainItems(schema: OpenApiSchema): SchemaSpec | null {
+  if ("$ref" in schema || schema.type !== "array" || schema.nullable) {
+    return null;
+  }
+  return plainObject(schema.items);
+}
+
+/**
+ * `@property` tags for an object schema. Nested objects (and arrays of
+ * them) get dotted names rather than inline types, so the descriptions
+ * of their fields survive.
+ */
+function propertyLines(schema: SchemaSpec, prefix = ""): string[] {
+  return Object.entries(schema.properties ?? {}).flatMap(([key, prop]) => {
+    const name = `${prefix}${key}`;
+    const label = schema.required?.includes(key) ? name : `[${name}]`;
+    const object = plainObject(prop);
+    const items = plainItems(prop);
+
+    let type = jsType(prop);
+    let nested: string[] = [];
+    if (object) {
+      type = "object";
+      nested = propertyLines(object, `${name}.`);
+    } else if (items) {
+      type = "object[]";
+      nested = propertyLines(items, `${name}[].`);
+    }
+
+    const description = prop.description
+      ? ` ${commentText(prop.description)}`
+      : "";
+    return [` * @property {${type}} ${label}${description}`, ...nested];
+  });
+}
+
+/**
+ * A `@typedef` for the schema. Objects list their fields as properties;
+ * an array of objects gets a `…Item` typedef for its elements.
+ */
+function namedType(name: string, schema: OpenApiSchema): string {
+  const object = plainObject(schema);
+  if (object) {
+    return [
+      "/**",
+      ` * @typedef {object} ${name}`,
+      ...propertyLines(object),
+      " */",
+    ].join("\n");
+  }
+  const items = plainItems(schema);
+  if (items) {
+    return [
+      namedType(`${name}Item`, items),
+      `/** @typedef {${name}Item[]} ${name} */`,
+    ].join("\n\n");
+  }
+  return `/** @typedef {${jsType(schema)}} ${name} */`;
+}
+
+// ─── Client methods ──────────────────────────────────────────────────
+
+interface Method {
+  /** Typedefs the method's signature refers to. */
+  types: string[];
+  lines: string[];
+}
+
+function clientMethod(
+  method: string,
+  path: string,
+  op: OpenApiOperation,
+): Method {
+  const base = pascal(op.operationId);
+  const types: string[] = [];
+  const params: string[] = [];
+  const tags: string[] = [];
+  const init: string[] = ["...options"];
+
+  for (const p of op.parameters.filter((p) => p.in === "path")) {
+    params.push(p.name);
+    tags.push(`@param {string} ${p.name}`);
+  }
+
+  const content = op.requestBody?.content ?? {};
+  const jsonBody = content["application/json"]?.schema;
+  if (jsonBody) {
+    types.push(namedType(`${base}Body`, jsonBody));
+    params.push("body");
+    tags.push(
+      `@param {${base}Body} ${op.requestBody?.required ? "body" : "[body]"}`,
+    );
+    init.push("json: body");
+  } else if (op.requestBody) {
+    params.push("body");
+    tags.push("@param {BodyInit} body");
+    init.push("raw: body");
+  }
+
+  const queryParams = op.parameters.filter((p) => p.in === "query");
+  if (queryParams.length > 0) {
+    const required = queryParams.filter((p) => p.required).map((p) => p.name);
+    types.push(
+      namedType(`${base}Query`, {
+        type: "object",
+        properties: Object.fromEntries(
+          queryParams.map((p) => [
+            p.name,
+            { ...p.schema, description: p.description },
+          ]),
+        ),
+        required,
+      }),
+    );
+    params.push("query");
+    tags.push(
+      `@param {${base}Query} ${required.length > 0 ? "query" : "[query]"}`,
+    );
+    init.push("query");
+  }
+  params.push("options");
+  tags.push("@param {RequestOptions} [options]");
+
+  // The first 2xx response decides how the result is read.
+  const [status, success] = Object.entries(op.responses).find(([code]) =>
+    code.startsWith("2"),
+  )!;
+  const [mediaType, media] = Object.entries(success.content ?? {})[0] ?? [];
+  let returns: string;
+  let call: string;
+  if (status === "204" || !mediaType) {
+    returns = "Promise<void>";
+    call = "requestVoid";
+  } else if (mediaType !== "application/json") {
+    // Streams and files: hand back the response to read as needed.
+    returns = "Promise<Response>";
+    call = "request";
+  } else if (media?.schema && Object.keys(media.schema).length > 0) {
+    types.push(namedType(`${base}Response`, media.schema));
+    returns = `Promise<${base}Response>`;
+    call = "requestJson";
+  } else {
+    returns = "Promise<unknown>";
+    call = "requestJson";
+  }
+  tags.push(`@returns {${returns}}`);
+
+  const url = path.includes("{")
+    ? `\`${path.replace(/\{(\w+)\}/g, "${encodeURIComponent($1)}")}\``
+    : quote(path);
+  const summary = [op.summary, `\`${method.toUpperCase()} ${path}\``]
+    .filter(Boolean)
+    .join(" ");
+
+  const head = `      return ${call}(${quote(method.toUpperCase())}, ${url}, `;
+  const inline = init.length === 1 ? "options" : `{ ${init.join(", ")} }`;
+  const body =
+    head.length + inline.length + 1 <= PRINT_WIDTH
+      ? [`${head}${inline})`]
+      : [`${head}{`, ...init.map((i) => `        ${i},`), "      })"];
+
+  return {
+    types,
+    lines: [
+      "    /**",
+      `     * ${commentText(summary)}`,
+      ...tags.map((tag) => `     * ${tag}`),
+      "     */",
+      `    ${op.operationId}(${params.join(", ")}) {`,
+      ...body,
+      "    },",
+    ],
+  };
+}
+
+function generateClient(doc: OpenApiDocument): string {
+  // Error bodies are typed by the prelude's `ErrorBody`.
+  const types: string[] = [];
+  const methods: string[] = [];
+
+  for (const [path, operations] of Object.entries(doc.paths)) {
+    for (const [method, op] of Object.entries(operations)) {
+      if (!op) continue;
+      const generated = clientMethod(method, path, op);
+      types.push(...generated.types);
+      methods.push(generated.lines.join("\n"));
+    }
+  }
+
+  return [
+    "/**",
+    ` * Typed client for the ${doc.info.title} backend (API ${doc.info.version}).`,
+    " *",
+    " * Generated by backend/scripts/generate-client.ts from the routes' specs",
+    " * (the same ones behind GET /openapi.json); the types are JSDoc, so",
+    " * editors and `tsc --checkJs` can check calls. Do not edit by hand; run",
+    " * `bun run generate:client` in backend/ instead.",
+    " */",
+    "",
+    "// ─── Types ───────────────────────────────────────────────────────────",
+    "",
+    types.join("\n\n"),
+    "",
+    "// ─── Client ──────────────────────────────────────────────────────────",
+    "",
+    PRELUDE,
+    "  return {",
+    methods.join("\n\n"),
+    "  }",
+    "}",
+    "",
+    "/** @typedef {ReturnType<typeof createClient>} ApiClient */",
+    "",
+    "/** A client for the default local backend. */",
+    "export const api = createClient()",
+    "",
+  ].join("\n");
+}
+
+// ─── Main ────────────────────────────────────────────────────────────
+
+const out = resolve(process.argv[2] ?? DEFAULT_OUT);
+const router = createApp(
+  new DocStore(":memory:"),
+  new DocSyncRegistry(),
+  new ApiKeyStore(":memory:"),
+  new JobQueue(new JobStore(":memory:")),
+);
+const doc = buildOpenApi(router.listRoutes(), API_INFO);
+
+await Bun.write(out, generateClient(doc));
+
+const prettier = resolve(FRONTEND_DIR, "node_modules/.bin/prettier");
+if (existsSync(prettier)) {
+  Bun.spawnSync([prettier, "--write", out], { cwd: FRONTEND_DIR });
+}
+console.log(`Wrote ${Object.keys(doc.paths).length} paths to ${out}`);
@@ -0,0 +1,226 @@
+/**
+ * Tools the chat agent can call before it answers.
+ *
+ * Each tool is backed by one of our own services and returns plain text
+ * for the model to read:
+ *  - `search`       hybrid keyword + semantic search over the document's
+ *                   chunks (VectorDB)
+ *  - `outline`      the heading outline and section list (hierarchy)
+ *  - `readSection`  the full text of one section, looked up by title
+ *  - `stats`        word / character / paragraph counts
+ *
+ * Usage:
+ * ```ts
+ * const context = toolContext(text, { syncManager });
+ * const output = await runTool({ tool: "readSection", args: { title: "Scope" } }, context);
+ * ```
+ */
+
+import { Embedder } from "../db/embedder";
+import { analyzeText } from "./chunker";
+import type { DocSyncManager } from "./doc-sync";
+import {
+  extractHierarchy,
+  type HeadingNode,
+  type HierarchyMap,
+} from "./hierarchy-extractor";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** A tool call as the model writes it. */
+export interface ToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+/** What a tool can see: the document and the services behind it. */
+export interface ToolContext {
+  text: string;
+  syncManager?: DocSyncManager;
+  /** Aborts the chat turn the tools run for. */
+  signal?: AbortSignal;
+  /** The document hierarchy, computed on first use. */
+  hierarchy(): Promise<HierarchyMap>;
+}
+
+interface AgentTool {
+  name: string;
+  /** One line for the system prompt. */
+  description: string;
+  /** Argument list for the system prompt, e.g. `{ "query": string }`. */
+  args: string;
+  run(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Tool output is cut to this many characters before the model sees it. */
+const TOOL_OUTPUT_CHAR_LIMIT = 6000;
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 10;
+
+/** Only needed when no sync manager can provide the hierarchy. */
+let fallbackEmbedder: Embedder | null = null;
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function stringArg(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`\`${key}\` must be a non-empty string.`);
+  }
+  return value.trim();
+}
+
+function flattenHeadings(nodes: HeadingNode[]): HeadingNode[] {
+  return nodes.flatMap((n) => [n, ...flattenHeadings(n.children)]);
+}
+
+/** Exact (case-insensitive) title match first, then a substring match. */
+function findSection(hierarchy: HierarchyMap, title: string) {
+  const wanted = title.toLowerCase();
+  const sections = [
+    ...flattenHeadings(hierarchy.headings),
+    ...hierarchy.sectionSummaries,
+  ].map((s) => ({
+    title: s.title,
+    start: s.startOffset,
+    end: s.endOffset,
+  }));
+  return (
+    sections.find((s) => s.title.toLowerCase() === wanted) ??
+    sections.find((s) => s.title.toLowerCase().includes(wanted))
+  );
+}
+
+// ─── Tools ───────────────────────────────────────────────────────────
+
+const TOOLS: AgentTool[] = [
+  {
+    name: "search",
+    description:
+      "Keyword and semantic search over the document; finds exact names, numbers and terms as well as related passages. Returns the best-matching excerpts with their section paths and offsets.",
+    args: `{ "query": string, "limit"?: number (1-${MAX_SEARCH_LIMIT}) }`,
+    async run(args, { text, syncManager }) {
+      const query = stringArg(args, "query");
+      if (!syncManager) throw new Error("Search is unavailable here.");
+      const requested = Number(args.limit);
+      const limit =
+        Number.isInteger(requested) && requested > 0
+          ? Math.min(requested, MAX_SEARCH_LIMIT)
+          : DEFAULT_SEARCH_LIMIT;
+
+      const { results } = await syncManager.queryWithSync(text, query, {
+        limit,
+        mode: "hybrid",
+      });
+      if (results.length === 0) return "No matches.";
+      return results
+        .map(({ record }) => {
+          const label = record.sectionPath || "Untitled section";
+          return `[${label}] (${record.start}-${record.end})\n${record.text}`;
+        })
+        .join("\n\n---\n\n");
+    },
+  },
+  {
+    name: "outline",
+    description: "The document outline and the title of every section.",
+    args: "{}",
+    async run(_args, context) {
+      const hierarchy = await context.hierarchy();
+      const titles = [
+        ...flattenHeadings(hierarchy.headings),
+        ...hierarchy.sectionSummaries,
+      ].map((s) => s.title);
+      return [
+        `OUTLINE:\n${hierarchy.outline || "(none)"}`,
+        `SECTIONS:\n${[...new Set(titles)].map((t) => `- ${t}`).join("\n") || "(none)"}`,
+      ].join("\n\n");
+    },
+  },
+  {
+    name: "readSection",
+    description:
+      "The full text of one section. Use a title from `outline`; partial titles match too.",
+    args: '{ "title": string }',
+    async run(args, context) {
+      const title = stringArg(args, "title");
+      const section = findSection(await context.hierarchy(), title);
+      if (!section) {
+        throw new Error(
+          `No section titled "${title}". Call outline for the titles.`,
+        );
+      }
+      return `[${section.title}] (${section.start}-${section.end})\n${context.text.slice(section.start, section.end)}`;
+    },
+  },
+  {
+    name: "stats",
+    description: "Word, character and paragraph counts for the document.",
+    args: "{}",
+    async run(_args, { text }) {
+      return JSON.stringify(analyzeText(text));
+    },
+  },
+];
+
+export const TOOL_NAMES = TOOLS.map((t) => t.name);
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/** The tool list as it's described in the agent's system prompt. */
+export function describeTools(): string {
+  return TOOLS.map((t) => `- ${t.name} ${t.args}: ${t.description}`).join("\n");
+}
+
+/**
+ * Build the context for one chat turn. The hierarchy comes from
+ * `hierarchy` if given, else the sync manager, else a fresh extraction.
+ */
+export function toolContext(
+  text: string,
+  options: {
+    syncManager?: DocSyncManager;
+    hierarchy?: HierarchyMap;
+    signal?: AbortSignal;
+  } = {},
+): ToolContext {
+  const { syncManager, signal } = options;
+  let hierarchy: Promise<HierarchyMap> | null = options.hierarchy
+    ? Promise.resolve(options.hierarchy)
+    : null;
+
+  return {
+    text,
+    syncManager,
+    signal,
+    hierarchy() {
+      hierarchy ??= syncManager
+        ? syncManager.hierarchyFor(text)
+        : extractHierarchy(text, (fallbackEmbedder ??= new Embedder()));
+      return hierarchy;
+    },
+  };
+}
+
+/**
+ * Run a tool call. Output longer than the limit is truncated with a
+ * note saying how much was left out.
+ *
+ * @throws if the tool is unknown or its arguments are invalid, or the
+ *         context's `signal` is aborted.
+ */
+export async function runTool(
+  call: ToolCall,
+  context: ToolContext,
+): Promise<string> {
+  const tool = TOOLS.find((t) => t.name === call.tool);
+  if (!tool) throw new Error(`Unknown tool "${call.tool}".`);
+
+  context.signal?.throwIfAborted();
+  const output = await tool.run(call.args, context);
+  context.signal?.throwIfAborted();
+  if (output.length <= TOOL_OUTPUT_CHAR_LIMIT) return output;
+  return `${output.slice(0, TOOL_OUTPUT_CHAR_LIMIT)}\n…(truncated, ${output.length - TOOL_OUTPUT_CHAR_LIMIT} more characters)`;
+}
@@ -1,17 +1,58 @@
-import Agent from "solo-ai-sdk";
-import { chunkText } from "./chunker";
+import { llmFor, type LLMMessage } from "../llm";
+import type { ChunkRecord, DocSyncManager } from "./doc-sync";
+import type { ChatMessage } from "./chat-session";
+import type { CriticismResult } from "./criticism";
+import type { SuggestionResult } from "./suggest";
+import type { HierarchyMap } from "./hierarchy-extractor";
+import { anchorResults } from "./anchor";
+import {
+  describeTools,
+  runTool,
+  toolContext,
+  TOOL_NAMES,
+  type ToolCall,
+  type ToolContext,
+} from "./agent-tools";
+import {
+  agentStepShape,
+  chatResultShape,
+  generateStructured,
+  objectParser,
+} from "./structured-output";
+
+/**
+ * Documents up to this many characters are sent to the model whole;
+ * longer ones are replaced by the outline plus retrieved excerpts
+ * trimmed to the same budget.
+ */
+const CONTEXT_CHAR_BUDGET = 15000;
+/** How many chunks to retrieve before trimming to the budget. */
+const RETRIEVAL_LIMIT = 20;
+/** Tool calls allowed per turn before the model must answer. */
+const MAX_TOOL_CALLS = 4;
+
+/** One tool call made while answering, as reported in `ChatResult.trace`. */
+export interface AgentStep extends ToolCall {
+  /** Tool output as the model saw it; absent when the call failed. */
+  output?: string;
+  error?: string;
+  durationMs: number;
+}
 
 export interface ChatResult {
   action: "reply" | "criticize" | "suggest" | "edit" | "summarize";
   replyText?: string;
-  criticisms?: Array<{ quote: string; criticism: string }>;
-  suggestions?: Array<{ quote: string; suggestion: string; reason: string }>;
-  edits?: Array<{ quote: string; suggestion: string; reason: string }>;
+  criticisms?: CriticismResult[];
+  suggestions?: SuggestionResult[];
+  edits?: SuggestionResult[];
+  /** Tool calls made before answering, in order. */
+  trace?: AgentStep[];
 }
 
 const SYSTEM_PROMPT = `
 You are an expert AI document assistant embedded within a rich text editor.
-The user is providing you with a chunk of their document, their current "mode", and a specific query or command.
+The user is providing you with their document, their current "mode", and a specific query or command.
+For long documents you receive the document outline and the excerpts most relevant to the query instead of the full text. Each excerpt is labelled with its section path. Answer from those excerpts, and say so if they don't contain the answer.
 
 Modes:
 - "Chat": The user is asking a general question about the document or looking for a conversation.
@@ -21,7 +62,13 @@ Modes:
 
 Your task is to interpret the user's query IN THE CONTEXT OF THEIR CHOSEN MODE, and return a STRICT JSON object representing your decision.
 
-The JSON object MUST conform to this structure:
+Tools:
+Before answering you may look things up in the document with these tools:
+${describeTools()}
+
+To call a tool, return ONLY a JSON object of the form {"tool": "<name>", "args": { ... }}. Its output comes back in the next message; you can then call another tool or give your final answer. Use tools when the text you were given doesn't hold what you need, e.g. the excerpts of a long document miss the question or you need a whole section to quote from. Don't call tools you don't need.
+
+Your final answer is a JSON object that MUST conform to this structure:
 {
   "action": "reply" | "criticize" | "suggest" | "edit" | "summarize",
   "replyText": "A conversational response to the user (used for 'reply' or 'summarize' actions, or as a general status message)",
@@ -33,74 +80,203 @@ The JSON object MUST conform to this structure:
 Rules for Actions:
 - IF the user asks to summarize the document, use the "summarize" action and put the summary in "replyText".
 - IF the user asks a general question, use the "reply" action and put the answer in "replyText".
-- IF the user wants comments/review (usually "Comment" mode), use the "criticize" action and populate the "criticisms" array. Be sure the "quote" is an EXACT substring of the provided document text.
+- IF the user wants comments/review (usually "Comment" mode), use the "criticize" action and populate the "criticisms" array. Be sure the "quote" is an EXACT substring of the provided document text (never include the excerpt labels).
 - IF the user wants suggested changes (usually "Suggest" mode), use the "suggest" action and populate the "suggestions" array. The "quote" must be an EXACT substring.
 - IF the user wants direct rewrites/fixes (usually "Edit" mode), use the "edit" action and populate the "edits" array. The "quote" must be an EXACT substring.
 
+Earlier turns of the conversation, if any, come before the current message: your previous answers appear as the JSON you returned. Use them to resolve references like "that", "make it shorter" or "the second suggestion". The document in the current message is always the latest version.
+
 Even if the mode is "Chat", if the user explicitly asks "Fix the grammar in the second paragraph", you should be smart enough to return the "edit" or "suggest" action instead of just replying. The Mode is a strong hint, but the Query takes precedence.
 
 Return ONLY the JSON string. Do not wrap it in markdown code blocks.
 `;
 
+/**
+ * Build the document part of the prompt.
+ *
+ * Short documents are included verbatim. For long ones the sync manager
+ * retrieves the chunks most relevant to the query; they're laid out in
+ * document order under their section paths, after the outline, until
+ * the character budget is spent.
+ */
+async function buildDocumentContext(
+  text: string,
+  query: string,
+  syncManager?: DocSyncManager,
+): Promise<string> {
+  if (text.length <= CONTEXT_CHAR_BUDGET || !syncManager) {
+    return `DOCUMENT TEXT:\n---\n${text.slice(0, CONTEXT_CHAR_BUDGET)}\n---`;
+  }
+
+  const { results, hierarchy } = await syncManager.queryWithSync(text, query, {
+    limit: RETRIEVAL_LIMIT,
+  });
+
+  // Keep the best-ranked chunks that fit, then restore reading order.
+  let used = 0;
+  const selected: ChunkRecord[] = [];
+  for (const { record } of results) {
+    if (used + record.text.length > CONTEXT_CHAR_BUDGET) continue;
+    used += record.text.length;
+    selected.push(record);
+  }
+  selected.sort((a, b) => a.start - b.start);
+
+  const excerpts = selected
+    .map((r) => `[${r.sectionPath || "Untitled section"}]\n${r.text}`)
+    .join("\n\n---\n\n");
+
+  return `DOCUMENT OUTLINE:
+---
+${hierarchy?.outline || "(no outline available)"}
+---
+
+RELEVANT EXCERPTS (${selected.length}, in document order):
+---
+${excerpts}
+---`;
+}
+
+/**
+ * Run one tool call, recording its output or error and timing. Only an
+ * aborted turn throws; other failures are reported to the model.
+ */
+async function callTool(
+  call: ToolCall,
+  context: ToolContext,
+): Promise<AgentStep> {
+  const started = performance.now();
+  try {
+    const output = await runTool(call, context);
+    return { ...call, output, durationMs: elapsed(started) };
+  } catch (e: any) {
+    if (context.signal?.aborted) throw e;
+    return {
+      ...call,
+      error: e?.message ?? String(e),
+      durationMs: elapsed(started),
+    };
+  }
+}
+
+function elapsed(started: number): number {
+  return Math.round(performance.now() - started);
+}
+
+/** The message that hands a tool's output back to the model. */
+function formatToolResult(step: AgentStep, callsLeft: number): string {
+  const body = step.error
+    ? `TOOL ERROR (${step.tool}): ${step.error}`
+    : `TOOL RESULT (${step.tool}):\n---\n${step.output}\n---`;
+  const budget =
+    callsLeft > 0
+      ? `You can make ${callsLeft} more tool call${callsLeft === 1 ? "" : "s"}.`
+      : "You have no tool calls left. Reply now with your final JSON answer.";
+  return `${body}\n\n${budget}`;
+}
+
+/** The user turn as it's stored in conversation history (no document). */
+export function formatUserTurn(query: string, mode: string): string {
+  return `USER MODE: ${mode}\nUSER QUERY: ${query}`;
+}
+
+export interface ChatOptions {
+  /** Retrieves excerpts for documents longer than the context budget. */
+  syncManager?: DocSyncManager;
+  /** Prior turns of the conversation, oldest first (see `ChatSessionStore.history`). */
+  history?: ChatMessage[];
+  /** Hierarchy of `text` if already known (saves the `outline` tool a sync). */
+  hierarchy?: HierarchyMap;
+  /** Tool calls allowed before the model must answer (default 4). */
+  maxToolCalls?: number;
+  /** Called after each tool call with its trace entry. */
+  onToolCall?: (step: AgentStep) => void;
+  /** Aborts the turn: pending model calls and tools. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Answer one chat turn, calling tools as the model asks for them.
+ *
+ * @throws `LLMError` / `StructuredOutputError` when the model fails or
+ *         never returns a usable answer, or the `signal`'s reason once
+ *         aborted.
+ */
 export async function chatWithDocument(
   text: string,
   query: string,
   mode: string,
+  options: ChatOptions = {},
 ): Promise<ChatResult> {
-  const agent = new Agent("gemini");
-
-  // For very large documents, we might need a more sophisticated chunking or map-reduce approach.
-  // For now, we'll try to process the whole text if it fits, or just the first large chunk.
-  // In a production system, you'd likely use the query to retrieve relevant vector chunks first.
-  const rawChunks = await chunkText(text, { maxChunkSize: 15000, overlap: 0 });
-  let relevantText = text;
-  if (rawChunks && rawChunks.length > 0) {
-    const firstChunk = rawChunks[0];
-    if (firstChunk && firstChunk.text) {
-      relevantText = firstChunk.text;
-    }
-  }
+  const { syncManager, history = [] } = options;
+  // Follow-ups like "make that shorter" say little on their own, so the
+  // previous question is folded into the retrieval query.
+  const previousQuery = history.findLast((m) => m.role === "user")?.content;
+  const retrievalQuery = previousQuery ? `${previousQuery}\n${query}` : query;
+  const documentContext = await buildDocumentContext(
+    text,
+    retrievalQuery,
+    syncManager,
+  );
 
   const prompt = `
-DOCUMENT TEXT:
----
-${relevantText}
----
+${documentContext}
 
-USER MODE: ${mode}
-USER QUERY: ${query}
+${formatUserTurn(query, mode)}
 `;
 
-  try {
-    const response = await agent.generate(
+  const llm = llmFor("chat");
+  const tools = toolContext(text, {
+    syncManager,
+    hierarchy: options.hierarchy,
+    signal: options.signal,
+  });
+  const maxToolCalls = options.maxToolCalls ?? MAX_TOOL_CALLS;
+  const messages: LLMMessage[] = [
+    ...history,
+    { role: "user", content: prompt },
+  ];
+  const trace: AgentStep[] = [];
+
+  // Each step is a tool call or the answer; once the budget is spent
+  // only an answer is accepted.
+  let result: ChatResult | null = null;
+  while (!result) {
+    const step = await generateStructured<ToolCall | ChatResult>(
+      llm,
       SYSTEM_PROMPT,
-      [{ role: "user", content: prompt }],
-      { model: "gemini-2.5-flash" },
+      messages,
+      objectParser(
+        trace.length < maxToolCalls
+          ? agentStepShape(TOOL_NAMES)
+          : chatResultShape,
+      ),
+      { signal: options.signal },
     );
-
-    const content = response.content as string | undefined;
-    if (!content) {
-      return {
-        action: "reply",
-        replyText: "Received empty response from the AI.",
-      };
+    if (!("tool" in step)) {
+      result = step;
+      break;
     }
 
-    const jsonStr = content
-      .replace(/^```json/, "")
-      .replace(/```$/, "")
-      .trim();
-
-    if (jsonStr) {
-      return JSON.parse(jsonStr) as ChatResult;
-    }
-  } catch (e) {
-    console.error("Error in chatWithDocument:", e);
+    const called = await callTool(step, tools);
+    trace.push(called);
+    options.onToolCall?.(called);
+    messages.push(
+      { role: "assistant", content: JSON.stringify(step) },
+      {
+        role: "user",
+        content: formatToolResult(called, maxToolCalls - trace.length),
+      },
+    );
   }
 
-  // Fallback
-  return {
-    action: "reply",
-    replyText: "I'm sorry, I couldn't process that request right now.",
-  };
+  // Quotes may come from anywhere in the document (or its excerpts).
+  if (result.criticisms) {
+    result.criticisms = anchorResults(text, result.criticisms);
+  }
+  if (result.suggestions) {
+    result.suggestions = anchorResults(text, result.suggestions);
+  }
+  if (result.edits) result.edits = anchorResults(text, result.edits);
+  return { ...result, trace };
 }
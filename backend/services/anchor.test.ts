@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import { anchorQuote, anchorResults, chunkWindow } from "./anchor";
+import type { Chunk } from "./chunker";
+
+const chunk = (start: number, chunkText: string): Chunk => ({
+  index: 0,
+  text: chunkText,
+  start,
+  end: start + chunkText.length,
+  hash: "",
+});
+
+const text = "The quick brown fox jumps over the lazy dog. The dog sleeps.";
+
+describe("anchorQuote", () => {
+  test("finds an exact quote, preferring the window", () => {
+    expect(anchorQuote(text, "dog")).toEqual({
+      span: { start: 40, end: 43 },
+      match: "exact",
+    });
+    expect(anchorQuote(text, "dog", { start: 44, end: text.length })).toEqual({
+      span: { start: 49, end: 52 },
+      match: "exact",
+    });
+  });
+
+  test("falls back to the whole document outside the window", () => {
+    expect(anchorQuote(text, "quick", { start: 30, end: text.length })).toEqual(
+      { span: { start: 4, end: 9 }, match: "exact" },
+    );
+  });
+
+  test("ignores case, spacing and typographic punctuation", () => {
+    const typeset = "He said “Hello,   world” — twice.";
+    const { span, match } = anchorQuote(typeset, '"hello, world" - twice');
+    expect(match).toBe("fuzzy");
+    expect(typeset.slice(span!.start, span!.end)).toBe(
+      "“Hello,   world” — twice",
+    );
+  });
+
+  test("tolerates a few edits in a long quote", () => {
+    const { span, match } = anchorQuote(text, "the lazy dogs. The dog slept");
+    expect(match).toBe("fuzzy");
+    expect(text.slice(span!.start, span!.end)).toStartWith("the lazy dog");
+  });
+
+  test("only matches very long quotes exactly", () => {
+    const long = Array.from({ length: 20 }, (_, i) => `Sentence ${i} of many.`)
+      .join(" ")
+      .repeat(2);
+    expect(anchorQuote(long, long).match).toBe("exact");
+    expect(anchorQuote(long, long.replace("many", "mnay"))).toEqual({
+      span: null,
+      match: "unlocated",
+    });
+  });
+
+  test("gives up on short or unrelated quotes", () => {
+    expect(anchorQuote(text, "cat")).toEqual({
+      span: null,
+      match: "unlocated",
+    });
+    expect(anchorQuote(text, "an entirely different sentence")).toEqual({
+      span: null,
+      match: "unlocated",
+    });
+  });
+});
+
+describe("anchorResults", () => {
+  test("adds offsets and replaces fuzzy quotes with the document's text", () => {
+    expect(
+      anchorResults(text, [
+        { quote: "lazy dog", note: 1 },
+        { quote: "THE QUICK  brown", note: 2 },
+        { quote: "missing", note: 3 },
+      ]),
+    ).toEqual([
+      { quote: "lazy dog", note: 1, start: 35, end: 43, match: "exact" },
+      {
+        quote: "The quick brown",
+        note: 2,
+        start: 0,
+        end: 15,
+        match: "fuzzy",
+      },
+      { quote: "missing", note: 3, match: "unlocated" },
+    ]);
+  });
+});
+
+describe("chunkWindow", () => {
+  test("widens the chunk by its overlap and some slack, within the text", () => {
+    expect(chunkWindow(chunk(10, "abc"), 5, 20)).toEqual({
+      start: 0,
+      end: 20,
+    });
+    expect(chunkWindow(chunk(1000, "x".repeat(100)), 50, 5000)).toEqual({
+      start: 750,
+      end: 1300,
+    });
+  });
+});
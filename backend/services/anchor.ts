@@ -0,0 +1,248 @@
+/**
+ * Quote anchoring: resolve the `quote` of a criticism or suggestion to
+ * exact character offsets in the document.
+ *
+ * Search order, within the window of the chunk the quote came from:
+ *  1. exact substring
+ *  2. normalized — case, whitespace runs, curly quotes, dashes and
+ *     ellipses ignored
+ *  3. fuzzy — the closest substring within a small edit distance
+ *
+ * Because chunk offsets are approximate (sentences are re-joined and
+ * overlap is prepended), steps 1–2 are repeated over the whole document
+ * before a quote is flagged as `unlocated`.
+ *
+ * Usage:
+ * ```ts
+ * const window = chunkWindow(chunk, 200, text.length);
+ * const anchored = anchorResults(text, criticisms, window);
+ * // → [{ quote, criticism, start: 1042, end: 1090, match: "exact" }, ...]
+ * ```
+ */
+
+import type { Chunk } from "./chunker";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export const ANCHOR_MATCHES = ["exact", "fuzzy", "unlocated"] as const;
+
+export type AnchorMatch = (typeof ANCHOR_MATCHES)[number];
+
+/** Position fields added to criticisms and suggestions. */
+export interface Anchored {
+  /** Offset of the quoted text in the document (absent when unlocated). */
+  start?: number;
+  /** Offset one past the quoted text (absent when unlocated). */
+  end?: number;
+  /**
+   * How the quote was found. For `fuzzy` matches `quote` is replaced by
+   * the document text it was matched to.
+   */
+  match?: AnchorMatch;
+}
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Extra characters searched on either side of a chunk's range. */
+const WINDOW_SLACK = 200;
+/** Quotes shorter than this must match exactly (after normalization). */
+const MIN_FUZZY_LENGTH = 12;
+/** Maximum edits, as a fraction of the quote length, for a fuzzy match. */
+const MAX_EDIT_RATIO = 0.2;
+/** Fuzzy search is quadratic; larger windows only get steps 1–2. */
+const MAX_FUZZY_WINDOW = 20000;
+/** Its cost also grows with the quote, so longer quotes skip it too. */
+const MAX_FUZZY_QUOTE = 500;
+
+const CHAR_FOLDS: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "‚": "'",
+  "“": '"',
+  "”": '"',
+  "„": '"',
+  "–": "-",
+  "—": "-",
+  "…": "...",
+  " ": " ",
+};
+
+// ─── Normalization ───────────────────────────────────────────────────
+
+/**
+ * Normalize `text` for matching and record, for every normalized
+ * character, the offset of the original character it came from.
+ */
+function normalize(text: string): { text: string; map: number[] } {
+  let out = "";
+  const map: number[] = [];
+  let lastWasSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const folded = CHAR_FOLDS[text[i]!] ?? text[i]!;
+    if (/\s/.test(folded)) {
+      if (lastWasSpace) continue;
+      out += " ";
+      map.push(i);
+      lastWasSpace = true;
+      continue;
+    }
+    for (const ch of folded.toLowerCase()) {
+      out += ch;
+      map.push(i);
+    }
+    lastWasSpace = false;
+  }
+  return { text: out, map };
+}
+
+/** Convert a normalized range back to a range of the original text. */
+function denormalize(
+  map: number[],
+  start: number,
+  end: number,
+  offset: number,
+): Span {
+  return { start: offset + map[start]!, end: offset + map[end - 1]! + 1 };
+}
+
+// ─── Matching ────────────────────────────────────────────────────────
+
+function findNormalized(text: string, quote: string, offset = 0): Span | null {
+  const needle = normalize(quote.trim()).text;
+  if (!needle) return null;
+  const hay = normalize(text);
+  const index = hay.text.indexOf(needle);
+  return index < 0
+    ? null
+    : denormalize(hay.map, index, index + needle.length, offset);
+}
+
+/**
+ * Approximate substring search (Sellers' algorithm): the substring of
+ * `text` with the smallest edit distance to `quote`, if that distance is
+ * within `MAX_EDIT_RATIO` of the quote length.
+ */
+function findFuzzy(text: string, quote: string, offset = 0): Span | null {
+  const needle = normalize(quote.trim()).text;
+  const hay = normalize(text);
+  const m = needle.length;
+  const n = hay.text.length;
+  if (m < MIN_FUZZY_LENGTH || m > MAX_FUZZY_QUOTE) return null;
+  if (n === 0 || m > n * 2) return null;
+
+  // cost[j] / from[j]: best distance for needle[0..j) ending at the
+  // current text position, and where that match started.
+  let cost = Array.from({ length: m + 1 }, (_, j) => j);
+  let from = new Array<number>(m + 1).fill(0);
+  let best = { distance: cost[m]!, start: 0, end: 0 };
+
+  for (let i = 1; i <= n; i++) {
+    const nextCost = [0];
+    const nextFrom = [i];
+    for (let j = 1; j <= m; j++) {
+      const substitute =
+        cost[j - 1]! + (needle[j - 1] === hay.text[i - 1] ? 0 : 1);
+      const skipNeedle = nextCost[j - 1]! + 1;
+      const skipText = cost[j]! + 1;
+
+      if (substitute <= skipNeedle && substitute <= skipText) {
+        nextCost.push(substitute);
+        nextFrom.push(from[j - 1]!);
+      } else if (skipNeedle <= skipText) {
+        nextCost.push(skipNeedle);
+        nextFrom.push(nextFrom[j - 1]!);
+      } else {
+        nextCost.push(skipText);
+        nextFrom.push(from[j]!);
+      }
+    }
+    cost = nextCost;
+    from = nextFrom;
+    if (cost[m]! < best.distance) {
+      best = { distance: cost[m]!, start: from[m]!, end: i };
+    }
+  }
+
+  if (best.distance > Math.floor(m * MAX_EDIT_RATIO) || best.end <= best.start)
+    return null;
+  return denormalize(hay.map, best.start, best.end, offset);
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Locate `quote` in `text`, preferring matches inside `window` (e.g. the
+ * chunk the quote was generated from).
+ */
+export function anchorQuote(
+  text: string,
+  quote: string,
+  window: Span = { start: 0, end: text.length },
+): { span: Span | null; match: AnchorMatch } {
+  const windowText = text.slice(window.start, window.end);
+
+  const exact = windowText.indexOf(quote);
+  if (exact >= 0) {
+    const start = window.start + exact;
+    return { span: { start, end: start + quote.length }, match: "exact" };
+  }
+
+  const normalized = findNormalized(windowText, quote, window.start);
+  if (normalized) return { span: normalized, match: "fuzzy" };
+
+  if (windowText.length <= MAX_FUZZY_WINDOW) {
+    const fuzzy = findFuzzy(windowText, quote, window.start);
+    if (fuzzy) return { span: fuzzy, match: "fuzzy" };
+  }
+
+  // Chunk offsets are approximate — fall back to the whole document.
+  if (window.start > 0 || window.end < text.length) {
+    const anywhere = text.indexOf(quote);
+    if (anywhere >= 0) {
+      return {
+        span: { start: anywhere, end: anywhere + quote.length },
+        match: "exact",
+      };
+    }
+    const normalizedAnywhere = findNormalized(text, quote);
+    if (normalizedAnywhere) return { span: normalizedAnywhere, match: "fuzzy" };
+  }
+
+  return { span: null, match: "unlocated" };
+}
+
+/** The document range a chunk's text was taken from, with slack. */
+export function chunkWindow(chunk: Chunk, overlap: number, textLength: number) {
+  return {
+    start: Math.max(0, chunk.start - overlap - WINDOW_SLACK),
+    end: Math.min(textLength, chunk.start + chunk.text.length + WINDOW_SLACK),
+  };
+}
+
+/**
+ * Anchor every item's `quote`. Fuzzy matches get the document's own text
+ * as their `quote`, so downstream exact-substring lookups succeed.
+ */
+export function anchorResults<T extends { quote: string }>(
+  text: string,
+  items: T[],
+  window?: Span,
+): Array<T & Anchored> {
+  return items.map((item) => {
+    const { span, match } = anchorQuote(text, item.quote, window);
+    if (!span) return { ...item, match };
+    return {
+      ...item,
+      quote: match === "fuzzy" ? text.slice(span.start, span.end) : item.quote,
+      start: span.start,
+      end: span.end,
+      match,
+    };
+  });
+}
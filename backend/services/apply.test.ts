@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applySuggestions } from "./apply";
+
+/** Apply `diff` to `before` with patch(1) and return the patched text. */
+function patch(before: string, diff: string): string {
+  const dir = mkdtempSync(join(tmpdir(), "apply-test-"));
+  try {
+    writeFileSync(join(dir, "document"), before);
+    writeFileSync(join(dir, "changes.diff"), diff);
+    const result = Bun.spawnSync(
+      ["patch", "--quiet", "-o", "patched", "document", "changes.diff"],
+      { cwd: dir },
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(`patch failed: ${result.stdout}${result.stderr}`);
+    }
+    return readFileSync(join(dir, "patched"), "utf8");
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function roundTrip(text: string, items: unknown[]) {
+  const result = applySuggestions(text, items);
+  expect(result.rejected).toEqual([]);
+  expect(patch(text, result.diff)).toBe(result.text);
+  return result;
+}
+
+const lines = (n: number) =>
+  Array.from({ length: n }, (_, i) => `line ${i + 1}\n`).join("");
+
+describe("applySuggestions", () => {
+  test("applies changes against the original offsets", () => {
+    const result = applySuggestions("one two three", [
+      { quote: "one", suggestion: "1", start: 0, end: 3 },
+      { quote: "three", suggestion: "3" },
+    ]);
+    expect(result.text).toBe("1 two 3");
+    expect(result.applied.map((c) => [c.newStart, c.newEnd])).toEqual([
+      [0, 1],
+      [6, 7],
+    ]);
+  });
+
+  test("rejects stale, missing, ambiguous, overlapping and invalid items", () => {
+    const result = applySuggestions("a b a", [
+      { quote: "b", suggestion: "B", start: 0, end: 1 },
+      { quote: "z", suggestion: "Z" },
+      { quote: "a", suggestion: "A" },
+      { quote: "a b", suggestion: "x", start: 0, end: 3 },
+      { quote: "b", suggestion: "y", start: 2, end: 3 },
+      { quote: "" },
+    ]);
+    expect(result.text).toBe("x a");
+    expect(result.rejected.map((r) => [r.index, r.code])).toEqual([
+      [0, "stale"],
+      [1, "not-found"],
+      [2, "ambiguous"],
+      [4, "overlap"],
+      [5, "invalid"],
+    ]);
+    expect(result.rejected[3]!.reason).toBe(
+      "Overlaps item 3, which was applied instead.",
+    );
+  });
+
+  test("applies nothing with allOrNothing when an item is rejected", () => {
+    const result = applySuggestions(
+      "a b",
+      [
+        { quote: "a", suggestion: "A" },
+        { quote: "a b", suggestion: "x", start: 0, end: 3 },
+        { quote: "z", suggestion: "Z" },
+      ],
+      { allOrNothing: true },
+    );
+    expect(result.text).toBe("a b");
+    expect(result.applied).toEqual([]);
+    expect(result.rejected.map((r) => r.reason)).toEqual([
+      "Overlaps item 0.",
+      expect.any(String),
+    ]);
+    expect(result.diff).toBe("");
+  });
+});
+
+describe("unified diff", () => {
+  test("is empty when nothing changes", () => {
+    expect(
+      applySuggestions("same", [{ quote: "same", suggestion: "same" }]).diff,
+    ).toBe("");
+  });
+
+  test("patches back to the new text", () => {
+    const text = lines(30);
+    roundTrip(text, [
+      { quote: "line 2\n", suggestion: "" },
+      { quote: "line 5\n", suggestion: "line 5\nline 5.5\n" },
+      { quote: "line 6", suggestion: "six" },
+      { quote: "line 20", suggestion: "twenty\nand more" },
+      { quote: "line 30\n", suggestion: "the end" },
+    ]);
+  });
+
+  test("joins changes on the same line", () => {
+    roundTrip("alpha beta gamma\ndelta\n", [
+      { quote: "alpha", suggestion: "A" },
+      { quote: "gamma\ndel", suggestion: "G\nD" },
+    ]);
+  });
+
+  test("marks a last line without a line break", () => {
+    const result = roundTrip("first\nlast", [
+      { quote: "last", suggestion: "final" },
+    ]);
+    expect(result.diff).toBe(
+      [
+        "--- a/document",
+        "+++ b/document",
+        "@@ -1,2 +1,2 @@",
+        " first",
+        "-last",
+        "\\ No newline at end of file",
+        "+final",
+        "\\ No newline at end of file",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("adds and removes the final line break", () => {
+    roundTrip("first\nlast", [{ quote: "last", suggestion: "last\n" }]);
+    roundTrip("first\nlast\n", [{ quote: "last\n", suggestion: "last" }]);
+    roundTrip("only", [{ quote: "only", suggestion: "only\nmore" }]);
+  });
+
+  test("writes an empty side as 0,0", () => {
+    const removed = roundTrip("gone\n", [{ quote: "gone\n", suggestion: "" }]);
+    expect(removed.diff).toContain("@@ -1,1 +0,0 @@");
+
+    const emptied = roundTrip("gone", [{ quote: "gone", suggestion: "" }]);
+    expect(emptied.diff).toContain(
+      "@@ -1,1 +0,0 @@\n-gone\n\\ No newline at end of file\n",
+    );
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Server-side application of accepted suggestions and edits.
+ *
+ * Every change is resolved against the same snapshot of the text and
+ * applied in one pass, so earlier replacements never shift or corrupt
+ * later ones. A change is rejected when:
+ *  - `stale`      its offsets no longer hold its `quote`
+ *  - `not-found`  it has no offsets and its quote isn't in the text
+ *  - `ambiguous`  it has no offsets and its quote occurs more than once
+ *  - `overlap`    it overlaps a change listed before it
+ *  - `invalid`    it isn't a `{ quote, suggestion }` object
+ *
+ * Usage:
+ * ```ts
+ * const { text: next, diff, rejected } = applySuggestions(text, accepted);
+ * ```
+ */
+
+import type { SuggestionResult } from "./suggest";
+import type { Span } from "./anchor";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type RejectionCode =
+  "stale" | "not-found" | "ambiguous" | "overlap" | "invalid";
+
+export interface RejectedSuggestion {
+  /** Position of the item in the request. */
+  index: number;
+  item: unknown;
+  code: RejectionCode;
+  reason: string;
+}
+
+export interface AppliedChange extends Span {
+  index: number;
+  quote: string;
+  suggestion: string;
+  /** Range of the replacement in the new text. */
+  newStart: number;
+  newEnd: number;
+}
+
+export interface ApplyOptions {
+  /** Apply nothing if any change is rejected (default false). */
+  allOrNothing?: boolean;
+}
+
+export interface ApplyResult {
+  text: string;
+  applied: AppliedChange[];
+  rejected: RejectedSuggestion[];
+  /** Unified diff (3 lines of context) from the old text to the new. */
+  diff: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+const DIFF_CONTEXT_LINES = 3;
+
+// ─── Resolution ──────────────────────────────────────────────────────
+
+function isSuggestion(item: unknown): item is SuggestionResult {
+  const s = item as SuggestionResult;
+  return (
+    typeof s === "object" &&
+    s !== null &&
+    typeof s.quote === "string" &&
+    s.quote.length > 0 &&
+    typeof s.suggestion === "string"
+  );
+}
+
+/** Find where a change applies, or why it can't. */
+function resolveSpan(
+  text: string,
+  item: SuggestionResult,
+): Span | { code: RejectionCode; reason: string } {
+  const { quote, start, end } = item;
+
+  if (typeof start === "number" && typeof end === "number") {
+    if (
+      Number.isInteger(start) &&
+      Number.isInteger(end) &&
+      start >= 0 &&
+      end <= text.length &&
+      text.slice(start, end) === quote
+    ) {
+      return { start, end };
+    }
+    return {
+      code: "stale",
+      reason: `The text at ${start}–${end} no longer matches the quote.`,
+    };
+  }
+
+  const first = text.indexOf(quote);
+  if (first < 0) {
+    return { code: "not-found", reason: "Quote not found in the text." };
+  }
+  if (text.indexOf(quote, first + 1) >= 0) {
+    return {
+      code: "ambiguous",
+      reason: "Quote occurs more than once; send `start`/`end` offsets.",
+    };
+  }
+  return { start: first, end: first + quote.length };
+}
+
+// ─── Diff ────────────────────────────────────────────────────────────
+
+/** Whole lines replaced by one or more changes, on both sides. */
+interface DiffBlock {
+  /** Index of the first replaced line, old and new. */
+  oldLine: number;
+  newLine: number;
+  /** The replaced lines, each with its line break if it has one. */
+  removed: string[];
+  added: string[];
+}
+
+/** Offsets at which each line of `text` starts. */
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineAt(starts: number[], offset: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid]! <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/** Lines of `text`, each keeping its line break. */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function isLineStart(text: string, offset: number): boolean {
+  return offset === 0 || text[offset - 1] === "\n";
+}
+
+function startOfLine(text: string, offset: number): number {
+  return offset === 0 ? 0 : text.lastIndexOf("\n", offset - 1) + 1;
+}
+
+function endOfLine(text: string, offset: number): number {
+  const lineBreak = text.indexOf("\n", offset);
+  return lineBreak < 0 ? text.length : lineBreak + 1;
+}
+
+/** Diff lines for `lines`, marking a last line without a line break. */
+function diffLines(prefix: string, lines: string[]): string[] {
+  return lines.flatMap((line) =>
+    line.endsWith("\n")
+      ? [prefix + line.slice(0, -1)]
+      : [prefix + line, "\\ No newline at end of file"],
+  );
+}
+
+/** A hunk range: an empty one starts at the line before it, as in diff(1). */
+function hunkRange(first: number, count: number): string {
+  return `${count === 0 ? first : first + 1},${count}`;
+}
+
+/**
+ * Whole-line blocks touched by the changes, in order. Changes on a
+ * shared line share a block; the text after a change is unchanged up to
+ * the next one, so each block's end lines up on both sides.
+ */
+function diffBlocks(
+  before: string,
+  after: string,
+  changes: AppliedChange[],
+): DiffBlock[] {
+  const spans: Array<
+    Record<"oldFrom" | "oldTo" | "newFrom" | "newTo", number>
+  > = [];
+  for (const c of changes) {
+    // A change that ends on a line break on both sides leaves the next
+    // line alone.
+    const atLineStart =
+      isLineStart(before, c.end) && isLineStart(after, c.newEnd);
+    const oldTo = atLineStart ? c.end : endOfLine(before, c.end);
+    const newTo = atLineStart ? c.newEnd : endOfLine(after, c.newEnd);
+    const oldFrom = startOfLine(before, c.start);
+
+    const last = spans.at(-1);
+    if (last && oldFrom < last.oldTo) {
+      last.oldTo = oldTo;
+      last.newTo = newTo;
+    } else {
+      const newFrom = startOfLine(after, c.newStart);
+      spans.push({ oldFrom, oldTo, newFrom, newTo });
+    }
+  }
+
+  const oldStarts = lineStarts(before);
+  const newStarts = lineStarts(after);
+  return spans
+    .map((span) => ({
+      oldLine: lineAt(oldStarts, span.oldFrom),
+      newLine: lineAt(newStarts, span.newFrom),
+      removed: splitLines(before.slice(span.oldFrom, span.oldTo)),
+      added: splitLines(after.slice(span.newFrom, span.newTo)),
+    }))
+    .filter((b) => b.removed.join("") !== b.added.join(""));
+}
+
+/**
+ * Build a unified diff from the applied changes, as diff(1) would write
+ * it. Changes within twice the context distance of each other share a
+ * hunk.
+ */
+function unifiedDiff(
+  before: string,
+  after: string,
+  changes: AppliedChange[],
+): string {
+  const blocks = diffBlocks(before, after, changes);
+  if (blocks.length === 0) return "";
+
+  const oldLines = splitLines(before);
+  const out: string[] = ["--- a/document", "+++ b/document"];
+  let i = 0;
+  while (i < blocks.length) {
+    let j = i + 1;
+    while (
+      j < blocks.length &&
+      blocks[j]!.oldLine -
+        (blocks[j - 1]!.oldLine + blocks[j - 1]!.removed.length) <=
+        2 * DIFF_CONTEXT_LINES
+    ) {
+      j++;
+    }
+    const group = blocks.slice(i, j);
+    const first = group[0]!;
+    const last = group[group.length - 1]!;
+    const lastEnd = last.oldLine + last.removed.length;
+
+    const oldStart =
+      first.oldLine - Math.min(DIFF_CONTEXT_LINES, first.oldLine);
+    const oldEnd = Math.min(oldLines.length, lastEnd + DIFF_CONTEXT_LINES);
+    const body: string[] = [];
+    let cursor = oldStart;
+    let growth = 0;
+    for (const block of group) {
+      body.push(
+        ...diffLines(" ", oldLines.slice(cursor, block.oldLine)),
+        ...diffLines("-", block.removed),
+        ...diffLines("+", block.added),
+      );
+      cursor = block.oldLine + block.removed.length;
+      growth += block.added.length - block.removed.length;
+    }
+    body.push(...diffLines(" ", oldLines.slice(cursor, oldEnd)));
+
+    const oldCount = oldEnd - oldStart;
+    const newStart = first.newLine - (first.oldLine - oldStart);
+    out.push(
+      `@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(newStart, oldCount + growth)} @@`,
+      ...body,
+    );
+    i = j;
+  }
+
+  return `${out.join("\n")}\n`;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Apply `items` (suggestions or chat edits) to `text`. Items listed
+ * first win when two overlap.
+ */
+export function applySuggestions(
+  text: string,
+  items: unknown[],
+  options: ApplyOptions = {},
+): ApplyResult {
+  const rejected: RejectedSuggestion[] = [];
+  const accepted: Array<Span & { index: number; item: SuggestionResult }> = [];
+
+  items.forEach((item, index) => {
+    if (!isSuggestion(item)) {
+      rejected.push({
+        index,
+        item,
+        code: "invalid",
+        reason:
+          "Expected an object with a non-empty `quote` and a `suggestion` string.",
+      });
+      return;
+    }
+
+    const span = resolveSpan(text, item);
+    if ("code" in span) {
+      rejected.push({ index, item, ...span });
+      return;
+    }
+
+    const clash = accepted.find(
+      (a) => a.start < span.end && span.start < a.end,
+    );
+    if (clash) {
+      rejected.push({
+        index,
+        item,
+        code: "overlap",
+        // With allOrNothing nothing gets applied, so don't claim `clash` was.
+        reason: options.allOrNothing
+          ? `Overlaps item ${clash.index}.`
+          : `Overlaps item ${clash.index}, which was applied instead.`,
+      });
+      return;
+    }
+    accepted.push({ ...span, index, item });
+  });
+
+  if (options.allOrNothing && rejected.length > 0) {
+    return { text, applied: [], rejected, diff: "" };
+  }
+
+  // Rebuild the text in one pass over the changes in document order.
+  accepted.sort((a, b) => a.start - b.start);
+  const applied: AppliedChange[] = [];
+  let output = "";
+  let cursor = 0;
+  for (const { start, end, index, item } of accepted) {
+    output += text.slice(cursor, start);
+    const newStart = output.length;
+    output += item.suggestion;
+    applied.push({
+      index,
+      quote: item.quote,
+      suggestion: item.suggestion,
+      start,
+      end,
+      newStart,
+      newEnd: output.length,
+    });
+    cursor = end;
+  }
+  output += text.slice(cursor);
+
+  return {
+    text: output,
+    applied,
+    rejected,
+    diff: unifiedDiff(text, output, applied),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Server-side conversation sessions for `/analyze/chat`.
+ *
+ * Each session keeps the ordered list of user queries and the agent's
+ * previous answers (including any criticisms / suggestions / edits it
+ * returned), so follow-ups like "make that shorter" can be resolved.
+ * The document itself is not stored — it's re-sent as fresh context on
+ * every turn.
+ *
+ * A session records the stored document (if any) and the API key it was
+ * started with, so callers can refuse to continue it for another
+ * document or key.
+ *
+ * History is trimmed oldest-first to a token budget, and sessions idle
+ * past the TTL are evicted.
+ *
+ * Usage:
+ * ```ts
+ * const sessions = new ChatSessionStore();
+ * const session =
+ *   sessions.get(sessionId) ?? sessions.create({ docId, apiKeyId });
+ * const history = sessions.history(session.id);
+ * // ... call the agent ...
+ * sessions.append(session.id, { role: "user", content: query }, reply);
+ * ```
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** What a session is tied to; `null` for inline text / no API key. */
+export interface ChatSessionScope {
+  docId: string | null;
+  apiKeyId: string | null;
+}
+
+export interface ChatSession extends ChatSessionScope {
+  id: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  lastUsed: number;
+}
+
+export interface ChatSessionOptions {
+  /** Approximate token budget for the history sent to the model (default 4000). */
+  maxHistoryTokens?: number;
+  /** Evict sessions unused for this long (default 2 hours). */
+  ttlMs?: number;
+  /** How often to check for expired sessions (default 10 minutes). */
+  sweepIntervalMs?: number;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Rough token estimate (~4 characters per token for English text).
+ * Good enough for budgeting; we never need an exact count.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// ─── ChatSessionStore ────────────────────────────────────────────────
+
+export class ChatSessionStore {
+  private sessions = new Map<string, ChatSession>();
+  private maxHistoryTokens: number;
+  private ttlMs: number;
+
+  constructor(options: ChatSessionOptions = {}) {
+    this.maxHistoryTokens = options.maxHistoryTokens ?? 4000;
+    this.ttlMs = options.ttlMs ?? 2 * 60 * 60 * 1000;
+
+    const sweep = setInterval(
+      () => this.evictExpired(),
+      options.sweepIntervalMs ?? 10 * 60 * 1000,
+    );
+    sweep.unref?.();
+  }
+
+  /** The live session for `id`, or `undefined` if unknown or expired. */
+  get(id: string): ChatSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session) return undefined;
+
+    const now = Date.now();
+    if (now - session.lastUsed > this.ttlMs) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    session.lastUsed = now;
+    return session;
+  }
+
+  /** Start a new session tied to `scope`. */
+  create(scope: ChatSessionScope): ChatSession {
+    const now = Date.now();
+    const session: ChatSession = {
+      id: crypto.randomUUID(),
+      ...scope,
+      messages: [],
+      createdAt: now,
+      lastUsed: now,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * The most recent messages that fit the token budget, oldest first.
+   * Always starts on a user message so the model never sees an answer
+   * without its question.
+   */
+  history(id: string): ChatMessage[] {
+    const session = this.sessions.get(id);
+    if (!session) return [];
+
+    const kept: ChatMessage[] = [];
+    let tokens = 0;
+    for (let i = session.messages.length - 1; i >= 0; i--) {
+      const message = session.messages[i]!;
+      tokens += estimateTokens(message.content);
+      if (tokens > this.maxHistoryTokens) break;
+      kept.unshift(message);
+    }
+    while (kept.length > 0 && kept[0]!.role !== "user") kept.shift();
+    return kept;
+  }
+
+  /**
+   * Record a completed turn. Stored messages are also trimmed to the
+   * budget so long conversations don't grow without bound.
+   */
+  append(id: string, ...messages: ChatMessage[]): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    session.messages.push(...messages);
+    session.messages = this.history(id);
+    session.lastUsed = Date.now();
+  }
+
+  /** @returns `true` if the session existed. */
+  delete(id: string): boolean {
+    return this.sessions.delete(id);
+  }
+
+  /** @returns The number of evicted sessions. */
+  evictExpired(now = Date.now()): number {
+    let evicted = 0;
+    for (const [id, session] of this.sessions) {
+      if (now - session.lastUsed > this.ttlMs) {
+        this.sessions.delete(id);
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+}
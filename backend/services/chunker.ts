@@ -33,6 +33,12 @@ export interface ChunkOptions {
   overlap?: number;
 }
 
+/** Every `ChunkOptions` key, e.g. to pick them out of a wider options object. */
+export const CHUNK_OPTION_KEYS = [
+  "maxChunkSize",
+  "overlap",
+] as const satisfies readonly (keyof ChunkOptions)[];
+
 export interface Chunk {
   /** Zero-based index of the chunk. */
   index: number;
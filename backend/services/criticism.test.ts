@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { LLMError, LLMQuotaError, onLLMCall, setProvider } from "../llm";
+import { MockProvider, type MockResponder } from "../llm/mock";
+import { BANNED_PHRASE_CATEGORY, criticizeDocument } from "./criticism";
+import { getReviewProfile } from "./review-profiles";
+
+process.env.LLM_PROVIDER = "mock";
+
+const text =
+  "The committee will use best efforts to publish the report. It's results are final.";
+
+let removeListener: (() => void) | undefined;
+
+/** Route the criticize task to a mock answering with `respond`. */
+function answer(respond: MockResponder) {
+  const mock = new MockProvider(respond);
+  setProvider(mock);
+  return mock;
+}
+
+afterEach(() => {
+  removeListener?.();
+  removeListener = undefined;
+});
+
+describe("criticizeDocument", () => {
+  test("anchors the model's criticisms with the profile's labels", async () => {
+    const mock = answer(() =>
+      JSON.stringify([
+        {
+          quote: "It's results",
+          criticism: "Use the possessive “its”.",
+          category: "grammar",
+          severity: "Major",
+        },
+        {
+          quote: "the report",
+          criticism: "Which report?",
+          category: "Tone",
+          severity: "minor",
+        },
+      ]),
+    );
+
+    expect(await criticizeDocument(text)).toEqual([
+      {
+        quote: "the report",
+        criticism: "Which report?",
+        category: "Other",
+        severity: "minor",
+        start: text.indexOf("the report"),
+        end: text.indexOf("the report") + 10,
+        match: "exact",
+      },
+      {
+        quote: "It's results",
+        criticism: "Use the possessive “its”.",
+        category: "Grammar",
+        severity: "major",
+        start: text.indexOf("It's"),
+        end: text.indexOf("It's") + 12,
+        match: "exact",
+      },
+    ]);
+    expect(mock.calls).toHaveLength(1);
+    expect(mock.calls[0]!.system).toContain('"minor", "moderate", "major"');
+  });
+
+  test("flags the profile's banned phrases without asking the model", async () => {
+    const mock = answer(() => "[]");
+    const criticisms = await criticizeDocument(text, {
+      profile: getReviewProfile("legal")!,
+    });
+
+    expect(criticisms).toEqual([
+      expect.objectContaining({
+        quote: "best efforts",
+        category: BANNED_PHRASE_CATEGORY,
+        severity: "medium",
+        start: text.indexOf("best efforts"),
+      }),
+    ]);
+    expect(mock.calls[0]!.system).toContain(
+      `don't comment on them: "best efforts"`,
+    );
+  });
+
+  test("skips a chunk the model fails on", async () => {
+    answer(() => "no JSON at all");
+    const error = console.error;
+    console.error = () => {};
+    try {
+      expect(await criticizeDocument(text)).toEqual([]);
+    } finally {
+      console.error = error;
+    }
+  });
+
+  test("ends the run when the provider fails", async () => {
+    const failure = new LLMError("Invalid API key.", "mock", 401);
+    answer(() => {
+      throw failure;
+    });
+    await expect(criticizeDocument(text)).rejects.toBe(failure);
+  });
+
+  test("ends the run when the quota is used up", async () => {
+    const mock = answer(() => "[]");
+    removeListener = onLLMCall(() => {
+      throw new LLMQuotaError("Quota used up.", 1000);
+    });
+    await expect(criticizeDocument(text)).rejects.toBeInstanceOf(LLMQuotaError);
+    expect(mock.calls).toEqual([]);
+  });
+});
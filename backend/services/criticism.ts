@@ -1,51 +1,150 @@
-import Agent from "solo-ai-sdk";
+import { llmFor, LLMError, LLMQuotaError } from "../llm";
+import { mapConcurrent } from "../llm/executor";
 import { chunkText } from "./chunker";
+import { anchorResults, chunkWindow, type Anchored } from "./anchor";
+import type { ProgressOptions } from "./progress";
+import { mergeCriticisms } from "./review-merge";
+import { getReviewProfile, type ReviewProfile } from "./review-profiles";
+import {
+  arrayParser,
+  generateStructured,
+  criticismShapeFor,
+} from "./structured-output";
 
-export interface CriticismResult {
+export interface CriticismResult extends Anchored {
   quote: string;
   criticism: string;
+  /** One of the review profile's focus areas (set by `/criticize`). */
+  category?: string;
+  /** A label from the review profile's severity scale. */
+  severity?: string;
 }
 
-const SYSTEM_PROMPT = `
-You are an expert document reviewer and editor. 
+export interface CriticizeOptions extends ProgressOptions<CriticismResult> {
+  /** Review profile to apply (default: the configured default profile). */
+  profile?: ReviewProfile;
+}
+
+/** Category of the criticisms raised for a profile's banned phrases. */
+export const BANNED_PHRASE_CATEGORY = "Banned phrase";
+
+const CHUNK_OPTIONS = { maxChunkSize: 1500, overlap: 200 };
+
+function buildSystemPrompt(profile: ReviewProfile): string {
+  const banned = profile.bannedPhrases.length
+    ? `\nThese phrases are flagged separately, so don't comment on them: ${profile.bannedPhrases.map((p) => `"${p}"`).join(", ")}.\n`
+    : "";
+
+  return `
+You are ${profile.persona}.
 Your task is to review the provided document chunk and provide concise criticisms, suggestions for improvement, or point out confusing phrasing.
+
+Focus on these areas:
+${profile.focusAreas.map((area) => `- ${area}`).join("\n")}
+
+Tone of your comments: ${profile.tone}
+${banned}
 You should return your findings as a JSON array of objects. Each object must have:
 - "quote": The exact substring from the text that you are criticizing. It must be an exact match.
 - "criticism": Your concise feedback.
+- "category": The focus area it belongs to, exactly one of: ${profile.focusAreas.map((a) => `"${a}"`).join(", ")}.
+- "severity": Exactly one of, from least to most severe: ${profile.severityScale.map((s) => `"${s}"`).join(", ")}.
 
 Return ONLY the JSON array. If there is nothing to criticize, return an empty array "[]".
 `;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
 
+/**
+ * Flag every occurrence of the profile's banned phrases (whole words,
+ * case-insensitive) with the middle severity of its scale.
+ */
+function findBannedPhrases(
+  text: string,
+  profile: ReviewProfile,
+): CriticismResult[] {
+  const severity =
+    profile.severityScale[Math.floor((profile.severityScale.length - 1) / 2)];
+  const found: CriticismResult[] = [];
+
+  for (const phrase of profile.bannedPhrases) {
+    const pattern = new RegExp(
+      `(?<![\\w-])${escapeRegExp(phrase)}(?![\\w-])`,
+      "gi",
+    );
+    for (const match of text.matchAll(pattern)) {
+      found.push({
+        quote: match[0],
+        criticism: `"${phrase}" is on the banned phrase list for ${profile.name} reviews.`,
+        category: BANNED_PHRASE_CATEGORY,
+        severity,
+        start: match.index,
+        end: match.index + match[0].length,
+        match: "exact",
+      });
+    }
+  }
+  return found;
+}
+
+/**
+ * Review the document against a review profile. Every criticism has a
+ * category and severity from the profile, is anchored to document
+ * offsets (see `./anchor`), and duplicates from overlapping chunks are
+ * merged (see `./review-merge`).
+ *
+ * @param options  `onChunk` receives each chunk's criticisms as soon as
+ *                 they're ready, in chunk order; `signal` aborts the run.
+ */
 export async function criticizeDocument(
   text: string,
+  options: CriticizeOptions = {},
 ): Promise<CriticismResult[]> {
+  const profile = options.profile ?? getReviewProfile()!;
+  const systemPrompt = buildSystemPrompt(profile);
+
   // Use a sliding window to chunk the document
-  const chunks = await chunkText(text, { maxChunkSize: 1500, overlap: 200 });
-  const agent = new Agent("gemini"); // Assuming gemini provider by default
-
-  const allCriticisms: CriticismResult[] = [];
-
-  for (const chunk of chunks) {
-    try {
-      const response = await agent.generate(
-        SYSTEM_PROMPT,
-        [{ role: "user", content: chunk.text }],
-        { model: "gemini-2.5-flash" },
-      );
-
-      const content = response.content as string;
-      const jsonStr = content
-        .replace(/^```json/, "")
-        .replace(/```$/, "")
-        .trim();
-      if (jsonStr) {
-        const criticisms: CriticismResult[] = JSON.parse(jsonStr);
-        allCriticisms.push(...criticisms);
+  const chunks = await chunkText(text, CHUNK_OPTIONS);
+  const llm = llmFor("criticize");
+
+  // Chunks are reviewed in parallel; results keep document order.
+  const perChunk = await mapConcurrent(
+    chunks,
+    async (chunk) => {
+      try {
+        const parsed = await generateStructured(
+          llm,
+          systemPrompt,
+          [{ role: "user", content: chunk.text }],
+          arrayParser(criticismShapeFor(profile)),
+          { signal: options.signal },
+        );
+        return anchorResults(
+          text,
+          parsed,
+          chunkWindow(chunk, CHUNK_OPTIONS.overlap, text.length),
+        );
+      } catch (e) {
+        // A chunk whose answer doesn't parse is skipped; a provider
+        // failure (or a used-up quota) ends the run.
+        if (e instanceof LLMQuotaError || e instanceof LLMError) throw e;
+        console.error("Error criticizing chunk:", e);
+        return [];
       }
-    } catch (e) {
-      console.error("Error criticizing chunk:", e);
-    }
-  }
+    },
+    {
+      signal: options.signal,
+      onResult: (criticisms, index) =>
+        options.onChunk?.({ index, total: chunks.length, results: criticisms }),
+    },
+  );
 
-  return allCriticisms;
+  return mergeCriticisms(
+    perChunk.flat(),
+    profile.severityScale,
+    findBannedPhrases(text, profile),
+  );
 }
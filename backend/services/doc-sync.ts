@@ -4,23 +4,39 @@
  * Implements a two-tier content-hashing strategy so we never do
  * redundant embedding work:
  *
- *  Tier 1 — Document-level hash fast path: if the full-doc SHA-256
- *           hasn't changed since the last sync, skip everything.
+ *  Tier 1 — Document-level hash fast path: if the SHA-256 of the full
+ *           doc and the chunking / hierarchy options hasn't changed
+ *           since the last sync, skip everything.
  *
  *  Tier 2 — Chunk-level diff: when the doc *has* changed, hash each
  *           chunk, compare to what's stored, and only embed/upsert the
- *           new or modified chunks while deleting stale ones.
+ *           new or modified chunks while deleting stale ones. Chunks
+ *           that merely moved reuse their stored vectors.
+ *
+ * Bookkeeping survives restarts: the stored chunk set is always rebuilt
+ * from the table itself on first use, and the doc hash / hierarchy are
+ * saved in a sidecar stamped with the table version, so they're only
+ * trusted while the table is exactly as they describe it.
+ *
+ * Each document gets its own `DocSyncManager` and LanceDB table via
+ * `DocSyncRegistry`, so concurrent documents never trigger each other's
+ * resyncs or see each other's chunks. Inline texts sent without a
+ * document id are keyed by their hash, and their tables are dropped once
+ * idle. Within one manager, a sync and the search or hierarchy read that
+ * follows it run as one unit.
  *
  * Usage:
  * ```ts
- * const sync = new DocSyncManager();
+ * const registry = new DocSyncRegistry();
+ * const sync = registry.get(docId); // or registry.getInline(text)
  * const results = await sync.queryWithSync(docText, "What is X?");
  * ```
  */
 
-import { VectorDB } from "../db/vectordb";
+import { VectorDB, sqlString, type SearchOptions } from "../db/vectordb";
 import { Embedder } from "../db/embedder";
 import {
+  CHUNK_OPTION_KEYS,
   chunkText,
   chunkWithHierarchy,
   hashDocument,
@@ -29,14 +45,35 @@ import {
 } from "./chunker";
 import {
   extractHierarchy,
+  HIERARCHY_OPTION_KEYS,
   type HierarchyMap,
   type HierarchyOptions,
 } from "./hierarchy-extractor";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
+/** Persisted alongside the table (see `VectorDB.writeSidecar`). */
+interface SyncState {
+  /** See `syncHash`. */
+  docHash: string;
+  hierarchy: HierarchyMap;
+  /** Table version right after the sync that produced this state. */
+  tableVersion: number | null;
+}
+
+/** Every `ChunkRecord` column except the text and vector. */
+const METADATA_COLUMNS = [
+  "chunkHash",
+  "chunkIndex",
+  "start",
+  "end",
+  "sectionTitle",
+  "sectionPath",
+  "contextPrefix",
+];
+
 /** Shape of each record stored in the vector table. */
-interface ChunkRecord {
+export interface ChunkRecord {
   text: string;
   chunkHash: string;
   chunkIndex: number;
@@ -49,16 +86,40 @@ interface ChunkRecord {
   [key: string]: unknown;
 }
 
+/** Restricts a query to part of the document. All fields are optional. */
+export interface ChunkFilter {
+  /**
+   * Only chunks in this section or its subsections, by path as stored in
+   * `sectionPath` (e.g. "Chapter 1" also matches "Chapter 1 > 1.2 Budget").
+   */
+  sectionPath?: string;
+  /** Only chunks whose section has exactly this title. */
+  sectionTitle?: string;
+  /** Only chunks overlapping this character range of the document. */
+  range?: { start?: number; end?: number };
+}
+
+export interface QueryOptions
+  extends ChunkOptions, HierarchyOptions, Omit<SearchOptions, "where"> {
+  /** Maximum number of results (default 10). */
+  limit?: number;
+  filter?: ChunkFilter;
+}
+
 // ─── DocSyncManager ──────────────────────────────────────────────────
 
 export class DocSyncManager {
   private vdb: VectorDB;
   private embedder: Embedder;
   private lastDocHash: string | null = null;
-  /** Map chunkHash → true for every chunk currently stored. */
-  private storedHashes: Set<string> = new Set();
+  /** `recordKey` → chunkHash for every row currently stored. */
+  private storedChunks: Map<string, string> = new Map();
   /** Cached hierarchy from the last sync. */
   private lastHierarchy: HierarchyMap | null = null;
+  /** Tail of the queue; syncs (and the reads after them) run one at a time. */
+  private pending: Promise<unknown> = Promise.resolve();
+  /** Whether bookkeeping has been loaded from the table yet. */
+  private hydrated = false;
 
   constructor(tableName = "doc_chunks", embedder?: Embedder) {
     this.embedder = embedder ?? new Embedder();
@@ -77,8 +138,29 @@ export class DocSyncManager {
     docText: string,
     options?: ChunkOptions & HierarchyOptions,
   ): Promise<boolean> {
+    return this.exclusive(() => this.sync(docText, options));
+  }
+
+  /**
+   * Run `task` once every earlier queued task has finished. Two
+   * overlapping syncs would both diff against the same stored hashes and
+   * insert the same chunks twice, and a sync for another text between a
+   * sync and its search would swap the table underneath the search.
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task);
+    this.pending = run.catch(() => {});
+    return run;
+  }
+
+  private async sync(
+    docText: string,
+    options?: ChunkOptions & HierarchyOptions,
+  ): Promise<boolean> {
+    if (!this.hydrated) await this.hydrate();
+
     // ── Tier 1: document-level fast path ──────────────────────────
-    const docHash = await hashDocument(docText);
+    const docHash = await syncHash(docText, options);
     if (docHash === this.lastDocHash) return false;
 
     // ── Extract hierarchy ───────────────────────────────────────
@@ -87,24 +169,14 @@ export class DocSyncManager {
 
     // ── Tier 2: chunk-level diff ───────────────────────────────
     const chunks = await chunkWithHierarchy(docText, hierarchy, options);
-    const newHashes = new Set(chunks.map((c) => c.hash));
-
-    // Determine which chunks need embedding (new or changed)
-    const toInsert = chunks.filter((c) => !this.storedHashes.has(c.hash));
-
-    // Determine which stored chunks are stale
-    const toDelete = [...this.storedHashes].filter((h) => !newHashes.has(h));
-
-    // Delete stale chunks
-    if (toDelete.length > 0) {
-      await this.fullResync(chunks);
-    } else if (toInsert.length > 0) {
-      await this.embedAndInsert(toInsert);
-    }
+    await this.applyChunkDiff(chunks);
 
     // Update bookkeeping
-    this.storedHashes = newHashes;
+    this.storedChunks = new Map(
+      chunks.map((c) => [recordKey(toRecord(c)), c.hash]),
+    );
     this.lastDocHash = docHash;
+    await this.saveState();
     return true;
   }
 
@@ -112,20 +184,40 @@ export class DocSyncManager {
    * Convenience method: sync then query.
    *
    * Call this every time the user asks a question — the sync is a
-   * no-op when the document hasn't changed.
+   * no-op when the document hasn't changed. `mode` picks vector,
+   * keyword or hybrid ranking (default vector); `filter` and
+   * `minSimilarity` narrow the results.
    */
   async queryWithSync(
     docText: string,
     question: string,
-    options?: ChunkOptions & HierarchyOptions & { limit?: number },
+    options?: QueryOptions,
   ) {
-    await this.syncIfNeeded(docText, options);
-    const limit = options?.limit ?? 10;
-    const results = await this.vdb.searchText(question, limit);
-    return {
-      results,
-      hierarchy: this.lastHierarchy,
-    };
+    return this.exclusive(async () => {
+      await this.sync(docText, options);
+      const limit = options?.limit ?? 10;
+      const results = await this.vdb.searchText<ChunkRecord>(question, limit, {
+        mode: options?.mode,
+        minSimilarity: options?.minSimilarity,
+        where: options?.filter && chunkFilter(options.filter),
+      });
+      return {
+        results,
+        hierarchy: this.lastHierarchy,
+      };
+    });
+  }
+
+  /** Sync if needed, then return the hierarchy of `docText`. */
+  async hierarchyFor(
+    docText: string,
+    options?: ChunkOptions & HierarchyOptions,
+  ): Promise<HierarchyMap> {
+    const hierarchy = await this.exclusive(async () => {
+      await this.sync(docText, options);
+      return this.lastHierarchy;
+    });
+    return hierarchy ?? extractHierarchy(docText, this.embedder);
   }
 
   /**
@@ -135,93 +227,291 @@ export class DocSyncManager {
     await this.vdb.reset();
     this.lastDocHash = null;
     this.lastHierarchy = null;
-    this.storedHashes.clear();
+    this.storedChunks.clear();
+    this.hydrated = true;
   }
 
   // ── Internals ──────────────────────────────────────────────────────
 
   /**
-   * Embed chunk texts and insert them as VectorRecords.
+   * Rebuild bookkeeping from what's actually persisted.
+   *
+   * The stored chunk set always comes from the table rows. The doc hash
+   * and hierarchy come from the sidecar, but only if the table hasn't
+   * been written since; otherwise they're dropped and the next sync
+   * falls through to the (cheap) chunk-level diff.
    */
-  private async embedAndInsert(chunks: Chunk[]): Promise<void> {
-    if (chunks.length === 0) return;
+  private async hydrate(): Promise<void> {
+    const rows = await this.vdb.query<ChunkRecord>({
+      columns: METADATA_COLUMNS,
+    });
+    this.storedChunks = new Map(rows.map((r) => [recordKey(r), r.chunkHash]));
 
-    const texts = chunks.map((c) => c.text);
-    const vectors = await this.embedder.embedBatch(texts);
+    const state = await this.vdb.readSidecar<SyncState>();
+    if (state && state.tableVersion === (await this.vdb.version())) {
+      this.lastDocHash = state.docHash;
+      this.lastHierarchy = state.hierarchy;
+    }
 
-    const records: ChunkRecord[] = chunks.map((c, i) => ({
-      text: c.text,
-      chunkHash: c.hash,
-      chunkIndex: c.index,
-      start: c.start,
-      end: c.end,
-      sectionTitle: c.sectionTitle ?? "",
-      sectionPath: c.sectionPath ?? "",
-      contextPrefix: c.contextPrefix ?? "",
-      vector: vectors[i]!,
-    }));
+    this.hydrated = true;
+  }
 
-    await this.vdb.insert(records);
+  private async saveState(): Promise<void> {
+    if (!this.lastDocHash || !this.lastHierarchy) return;
+    const state: SyncState = {
+      docHash: this.lastDocHash,
+      hierarchy: this.lastHierarchy,
+      tableVersion: await this.vdb.version(),
+    };
+    try {
+      await this.vdb.writeSidecar(state);
+    } catch (e) {
+      // Losing the sidecar only costs a chunk-level diff next time.
+      console.error("Error saving sync state:", e);
+    }
   }
 
   /**
-   * Reset the table and re-insert all current chunks.
-   * Only *embeds* chunks that are genuinely new to avoid redundant
-   * inference calls.
+   * Bring the table in line with `chunks`, touching only rows that
+   * actually differ.
+   *
+   * A stored row is kept when a current chunk has the same hash *and*
+   * metadata. Everything else is deleted by `chunkHash` filter and
+   * rewritten; vectors for chunks whose text is already stored are read
+   * back from the table instead of being re-embedded, so only genuinely
+   * new text costs an embedding pass.
    */
-  private async fullResync(allChunks: Chunk[]): Promise<void> {
-    // Embed only chunks we haven't embedded before
-    const newChunks = allChunks.filter((c) => !this.storedHashes.has(c.hash));
-    const existingChunks = allChunks.filter((c) =>
-      this.storedHashes.has(c.hash),
+  private async applyChunkDiff(chunks: Chunk[]): Promise<void> {
+    const currentKeys = new Set(chunks.map((c) => recordKey(toRecord(c))));
+
+    const staleHashes = new Set<string>();
+    for (const [key, hash] of this.storedChunks) {
+      if (!currentKeys.has(key)) staleHashes.add(hash);
+    }
+
+    // Deleting by hash also removes current rows sharing that hash
+    // (repeated text), so those must be rewritten too.
+    const toWrite = chunks.filter(
+      (c) =>
+        !this.storedChunks.has(recordKey(toRecord(c))) ||
+        staleHashes.has(c.hash),
     );
+    if (toWrite.length === 0 && staleHashes.size === 0) return;
 
-    // For new chunks, generate embeddings
-    const newVectors =
-      newChunks.length > 0
-        ? await this.embedder.embedBatch(newChunks.map((c) => c.text))
-        : [];
-
-    // For existing chunks we'd ideally reuse their vectors, but since
-    // we're resetting the table we need them again. In the current
-    // LanceDB model there's no way to read back vectors by hash before
-    // dropping, so we re-embed everything on a full resync.
-    // This only happens when chunks are *deleted*, which is rarer than
-    // additions.
-    const existingVectors =
-      existingChunks.length > 0
-        ? await this.embedder.embedBatch(existingChunks.map((c) => c.text))
-        : [];
+    // Read reusable vectors *before* deleting their rows.
+    const storedHashes = new Set(this.storedChunks.values());
+    const vectors = await this.readVectors(
+      toWrite.map((c) => c.hash).filter((h) => storedHashes.has(h)),
+    );
 
-    await this.vdb.reset();
+    if (staleHashes.size > 0) {
+      await this.vdb.delete(hashFilter([...staleHashes]));
+    }
 
-    const records: ChunkRecord[] = [
-      ...newChunks.map((c, i) => ({
-        text: c.text,
-        chunkHash: c.hash,
-        chunkIndex: c.index,
-        start: c.start,
-        end: c.end,
-        sectionTitle: c.sectionTitle ?? "",
-        sectionPath: c.sectionPath ?? "",
-        contextPrefix: c.contextPrefix ?? "",
-        vector: newVectors[i]!,
-      })),
-      ...existingChunks.map((c, i) => ({
-        text: c.text,
-        chunkHash: c.hash,
-        chunkIndex: c.index,
-        start: c.start,
-        end: c.end,
-        sectionTitle: c.sectionTitle ?? "",
-        sectionPath: c.sectionPath ?? "",
-        contextPrefix: c.contextPrefix ?? "",
-        vector: existingVectors[i]!,
-      })),
+    const toEmbed = [
+      ...new Map(
+        toWrite.filter((c) => !vectors.has(c.hash)).map((c) => [c.hash, c]),
+      ).values(),
     ];
+    if (toEmbed.length > 0) {
+      const embedded = await this.embedder.embedBatch(
+        toEmbed.map((c) => c.text),
+      );
+      toEmbed.forEach((c, i) => vectors.set(c.hash, embedded[i]!));
+    }
+
+    await this.vdb.insert(
+      toWrite.map((c) => toRecord(c, vectors.get(c.hash)!)),
+    );
+  }
+
+  /** Look up stored vectors for the given chunk hashes. */
+  private async readVectors(hashes: string[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+    const unique = [...new Set(hashes)];
+    if (unique.length === 0) return vectors;
+
+    const rows = await this.vdb.query<
+      Pick<ChunkRecord, "chunkHash" | "vector">
+    >({ where: hashFilter(unique), columns: ["chunkHash", "vector"] });
+    for (const row of rows) vectors.set(row.chunkHash, row.vector);
+    return vectors;
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Hash of the document and every option that shapes its chunks and
+ * hierarchy, so a sync with other options isn't mistaken for a no-op.
+ */
+async function syncHash(
+  docText: string,
+  options: ChunkOptions & HierarchyOptions = {},
+): Promise<string> {
+  const shaping = [...CHUNK_OPTION_KEYS, ...HIERARCHY_OPTION_KEYS].map(
+    (key) => options[key] ?? null,
+  );
+  return hashDocument(`${JSON.stringify(shaping)}\n${docText}`);
+}
+
+function toRecord(chunk: Chunk, vector: number[] = []): ChunkRecord {
+  return {
+    text: chunk.text,
+    chunkHash: chunk.hash,
+    chunkIndex: chunk.index,
+    start: chunk.start,
+    end: chunk.end,
+    sectionTitle: chunk.sectionTitle ?? "",
+    sectionPath: chunk.sectionPath ?? "",
+    contextPrefix: chunk.contextPrefix ?? "",
+    vector,
+  };
+}
+
+/** Identity of a stored row: its text hash plus every metadata field. */
+function recordKey(r: Omit<ChunkRecord, "text" | "vector">): string {
+  return JSON.stringify([
+    r.chunkHash,
+    r.chunkIndex,
+    r.start,
+    r.end,
+    r.sectionTitle,
+    r.sectionPath,
+    r.contextPrefix,
+  ]);
+}
+
+function hashFilter(hashes: string[]): string {
+  return `chunkHash IN (${hashes.map(sqlString).join(", ")})`;
+}
 
-    if (records.length > 0) {
-      await this.vdb.insert(records);
+/** SQL filter for a `ChunkFilter`, or `undefined` if it filters nothing. */
+function chunkFilter(filter: ChunkFilter): string | undefined {
+  const clauses: string[] = [];
+  const { sectionPath, sectionTitle, range } = filter;
+  if (sectionPath !== undefined) {
+    clauses.push(
+      `(sectionPath = ${sqlString(sectionPath)} OR starts_with(sectionPath, ${sqlString(`${sectionPath} > `)}))`,
+    );
+  }
+  if (sectionTitle !== undefined) {
+    clauses.push(`sectionTitle = ${sqlString(sectionTitle)}`);
+  }
+  if (range?.start !== undefined) clauses.push(`\`end\` > ${range.start}`);
+  if (range?.end !== undefined) clauses.push(`\`start\` < ${range.end}`);
+  return clauses.length > 0 ? clauses.join(" AND ") : undefined;
+}
+
+// ─── DocSyncRegistry ─────────────────────────────────────────────────
+
+export interface DocSyncRegistryOptions {
+  /** Evict managers unused for this long (default 30 minutes). */
+  idleTimeoutMs?: number;
+  /** How often to check for idle managers (default 5 minutes). */
+  sweepIntervalMs?: number;
+  /** Shared embedder for every manager (one model load per process). */
+  embedder?: Embedder;
+}
+
+interface RegistryEntry {
+  manager: DocSyncManager;
+  lastUsed: number;
+  /** Backs inline text rather than a stored document. */
+  inline: boolean;
+}
+
+/**
+ * Hands out one `DocSyncManager` per document id, each backed by its own
+ * LanceDB table, and evicts managers that have been idle too long.
+ */
+export class DocSyncRegistry {
+  private entries = new Map<string, RegistryEntry>();
+  private embedder: Embedder;
+  private idleTimeoutMs: number;
+
+  constructor(options: DocSyncRegistryOptions = {}) {
+    this.embedder = options.embedder ?? new Embedder();
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 30 * 60 * 1000;
+
+    const sweep = setInterval(
+      () => this.evictIdle(),
+      options.sweepIntervalMs ?? 5 * 60 * 1000,
+    );
+    // Don't keep the process alive just for eviction.
+    sweep.unref?.();
+  }
+
+  /** Get (or create) the sync manager for a document. */
+  get(docId: string): DocSyncManager {
+    return this.touch(docId, false);
+  }
+
+  /**
+   * Get (or create) the sync manager for text sent without a document
+   * id. Each distinct text gets its own table, keyed by its hash, so
+   * callers with different texts neither resync nor wait on each other.
+   */
+  getInline(text: string): DocSyncManager {
+    const hash = new Bun.CryptoHasher("sha256").update(text).digest("hex");
+    return this.touch(`inline-${hash.slice(0, 32)}`, true);
+  }
+
+  /** Drop a document's vectors and forget its manager (e.g. on delete). */
+  async drop(docId: string): Promise<void> {
+    const entry = this.entries.get(docId);
+    this.entries.delete(docId);
+    const manager =
+      entry?.manager ?? new DocSyncManager(tableNameFor(docId), this.embedder);
+    await manager.reset();
+  }
+
+  /**
+   * Evict managers idle for longer than the timeout.
+   *
+   * A stored document's table stays on disk and the next manager for it
+   * rebuilds its state from it. An inline text's table is dropped, since
+   * only a request repeating the exact text would ever use it again.
+   *
+   * @returns The number of evicted managers.
+   */
+  evictIdle(now = Date.now()): number {
+    const idle = [...this.entries].filter(
+      ([, entry]) => now - entry.lastUsed > this.idleTimeoutMs,
+    );
+    for (const [docId, entry] of idle) {
+      this.entries.delete(docId);
+      if (entry.inline) {
+        entry.manager.reset().catch((err) => {
+          console.error(`Failed to drop idle table for ${docId}:`, err);
+        });
+      }
+    }
+    return idle.length;
+  }
+
+  private touch(docId: string, inline: boolean): DocSyncManager {
+    let entry = this.entries.get(docId);
+    if (!entry) {
+      entry = {
+        manager: new DocSyncManager(tableNameFor(docId), this.embedder),
+        lastUsed: 0,
+        inline,
+      };
+      this.entries.set(docId, entry);
     }
+    entry.lastUsed = Date.now();
+    return entry.manager;
   }
 }
+
+/**
+ * LanceDB table names allow letters, digits, `_`, `-` and `.`. Ids made
+ * of those (UUIDs, slugs) are used verbatim; anything else is hashed so
+ * two distinct ids can never map to the same table.
+ */
+function tableNameFor(docId: string): string {
+  if (/^[A-Za-z0-9_-]{1,100}$/.test(docId)) return `doc_chunks_${docId}`;
+  const hash = new Bun.CryptoHasher("sha256").update(docId).digest("hex");
+  return `doc_chunks_${hash.slice(0, 32)}`;
+}
@@ -0,0 +1,424 @@
+/**
+ * Plain text + review results → .docx.
+ *
+ * Builds a minimal WordprocessingML package from the document text and
+ * anchors review output at the quoted ranges:
+ *  - `CriticismResult` → Word comment (`w:comment`) spanning the quote
+ *  - `SuggestionResult` → tracked deletion of the quote (`w:del`) plus a
+ *    tracked insertion of the replacement (`w:ins`), with the reason
+ *    attached as a comment
+ *
+ * Every non-empty line of the text becomes a paragraph. When the
+ * `structure` from `/docs/import` is passed back in, heading paragraphs
+ * keep their Heading 1–6 styles.
+ *
+ * Annotations that can't be placed (quote not found, a tracked change
+ * spanning paragraphs or overlapping another one) are returned in
+ * `skipped` rather than silently dropped.
+ *
+ * Usage:
+ * ```ts
+ * const { bytes, skipped } = exportDocx({ text, criticisms, suggestions });
+ * ```
+ */
+
+import { writeZip } from "./zip";
+import type { CriticismResult } from "./criticism";
+import type { SuggestionResult } from "./suggest";
+import type { DocumentStructure } from "./docx-import";
+import type { Anchored } from "./anchor";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface DocxExportInput {
+  text: string;
+  title?: string;
+  /** Author shown on comments and tracked changes (default "AI Reviewer"). */
+  author?: string;
+  criticisms?: CriticismResult[];
+  suggestions?: SuggestionResult[];
+  /** Structure map from `/docs/import`; only `headings` is used. */
+  structure?: Pick<DocumentStructure, "headings">;
+}
+
+export interface SkippedAnnotation {
+  kind: "criticism" | "suggestion";
+  quote: string;
+  reason: string;
+}
+
+export interface DocxExportResult {
+  bytes: Uint8Array;
+  skipped: SkippedAnnotation[];
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface CommentAnchor extends Span {
+  id: number;
+  text: string;
+}
+
+interface ChangeAnchor extends Span {
+  insert: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PKG_REL_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+
+const DEFAULT_AUTHOR = "AI Reviewer";
+
+// ─── XML helpers ─────────────────────────────────────────────────────
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Render text as `w:t` (or `w:delText`) elements, turning tabs into `w:tab`. */
+function textElements(text: string, tag: "w:t" | "w:delText"): string {
+  return text
+    .split("\t")
+    .map((part) =>
+      part ? `<${tag} xml:space="preserve">${escapeXml(part)}</${tag}>` : "",
+    )
+    .join("<w:tab/>");
+}
+
+function run(text: string): string {
+  return `<w:r>${textElements(text, "w:t")}</w:r>`;
+}
+
+// ─── Anchoring ───────────────────────────────────────────────────────
+
+/** Every non-blank line of the text, as a paragraph span. */
+function splitParagraphs(text: string): Span[] {
+  const paragraphs: Span[] = [];
+  for (const match of text.matchAll(/[^\n]+/g)) {
+    if (match[0].trim().length === 0) continue;
+    paragraphs.push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return paragraphs;
+}
+
+function overlaps(a: Span, b: Span): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Find `quote` in the text: at its anchored offsets when they still hold
+ * it, otherwise the first occurrence that doesn't collide with any of
+ * the `taken` spans.
+ */
+function locate(
+  text: string,
+  { quote, start, end }: { quote: string } & Anchored,
+  taken: Span[] = [],
+): Span | null {
+  if (
+    start !== undefined &&
+    end !== undefined &&
+    text.slice(start, end) === quote &&
+    !taken.some((t) => overlaps(t, { start, end }))
+  ) {
+    return { start, end };
+  }
+
+  let from = 0;
+  while (true) {
+    const start = text.indexOf(quote, from);
+    if (start < 0) return null;
+    const span = { start, end: start + quote.length };
+    if (!taken.some((t) => overlaps(t, span))) return span;
+    from = start + 1;
+  }
+}
+
+// ─── document.xml ────────────────────────────────────────────────────
+
+function renderParagraph(
+  text: string,
+  paragraph: Span,
+  headingLevel: number | undefined,
+  comments: CommentAnchor[],
+  changes: ChangeAnchor[],
+  changeMeta: string,
+  nextChangeId: () => number,
+): string {
+  // Comments are clamped to the paragraph so multi-paragraph comments
+  // open in the first paragraph and close in the last.
+  const starts = comments.filter(
+    (c) => c.start >= paragraph.start && c.start < paragraph.end,
+  );
+  const ends = comments.filter(
+    (c) => c.end > paragraph.start && c.end <= paragraph.end,
+  );
+  const localChanges = changes.filter(
+    (c) => c.start >= paragraph.start && c.end <= paragraph.end,
+  );
+
+  const cuts = new Set<number>([paragraph.start, paragraph.end]);
+  for (const c of [...starts, ...ends]) {
+    cuts.add(Math.min(Math.max(c.start, paragraph.start), paragraph.end));
+    cuts.add(Math.min(Math.max(c.end, paragraph.start), paragraph.end));
+  }
+  for (const c of localChanges) {
+    cuts.add(c.start);
+    cuts.add(c.end);
+  }
+  const points = [...cuts].sort((a, b) => a - b);
+
+  let body = "";
+  const markersAt = (pos: number) => {
+    for (const change of localChanges.filter((c) => c.end === pos)) {
+      if (change.insert) {
+        body += `<w:ins w:id="${nextChangeId()}" ${changeMeta}>${run(change.insert)}</w:ins>`;
+      }
+    }
+    for (const comment of ends.filter((c) => c.end === pos)) {
+      body +=
+        `<w:commentRangeEnd w:id="${comment.id}"/>` +
+        `<w:r><w:commentReference w:id="${comment.id}"/></w:r>`;
+    }
+    for (const comment of starts.filter((c) => c.start === pos)) {
+      body += `<w:commentRangeStart w:id="${comment.id}"/>`;
+    }
+  };
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const from = points[i]!;
+    const to = points[i + 1]!;
+    markersAt(from);
+
+    const segment = text.slice(from, to);
+    const deleted = localChanges.some((c) => from >= c.start && to <= c.end);
+    body += deleted
+      ? `<w:del w:id="${nextChangeId()}" ${changeMeta}><w:r>${textElements(segment, "w:delText")}</w:r></w:del>`
+      : run(segment);
+  }
+  markersAt(paragraph.end);
+
+  const props = headingLevel
+    ? `<w:pPr><w:pStyle w:val="Heading${headingLevel}"/></w:pPr>`
+    : "";
+  return `<w:p>${props}${body}</w:p>`;
+}
+
+// ─── Package parts ───────────────────────────────────────────────────
+
+function contentTypesXml(): string {
+  const wml = "application/vnd.openxmlformats-officedocument.wordprocessingml";
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Override PartName="/word/document.xml" ContentType="${wml}.document.main+xml"/>` +
+    `<Override PartName="/word/styles.xml" ContentType="${wml}.styles+xml"/>` +
+    `<Override PartName="/word/comments.xml" ContentType="${wml}.comments+xml"/>` +
+    `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+    `</Types>`
+  );
+}
+
+function packageRelsXml(): string {
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="${PKG_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="word/document.xml"/>` +
+    `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>` +
+    `</Relationships>`
+  );
+}
+
+function documentRelsXml(): string {
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="${PKG_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    `<Relationship Id="rId2" Type="${REL_NS}/comments" Target="comments.xml"/>` +
+    `</Relationships>`
+  );
+}
+
+function stylesXml(): string {
+  const headings = [1, 2, 3, 4, 5, 6]
+    .map(
+      (level) =>
+        `<w:style w:type="paragraph" w:styleId="Heading${level}">` +
+        `<w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/>` +
+        `<w:next w:val="Normal"/><w:qFormat/>` +
+        `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="60"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+        `<w:rPr><w:b/><w:sz w:val="${Math.max(22, 36 - (level - 1) * 3)}"/></w:rPr>` +
+        `</w:style>`,
+    )
+    .join("");
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<w:styles xmlns:w="${W_NS}">` +
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal">` +
+    `<w:name w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="160"/></w:pPr>` +
+    `</w:style>` +
+    headings +
+    `</w:styles>`
+  );
+}
+
+function commentsXml(
+  comments: CommentAnchor[],
+  author: string,
+  date: string,
+): string {
+  const body = comments
+    .map(
+      (c) =>
+        `<w:comment w:id="${c.id}" w:author="${escapeXml(author)}" w:date="${date}" w:initials="AI">` +
+        `<w:p>${run(c.text)}</w:p>` +
+        `</w:comment>`,
+    )
+    .join("");
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<w:comments xmlns:w="${W_NS}">${body}</w:comments>`
+  );
+}
+
+function coreXml(title: string, author: string, date: string): string {
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    `xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ` +
+    `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    `<dc:creator>${escapeXml(author)}</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${date}</dcterms:created>` +
+    `</cp:coreProperties>`
+  );
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Build a .docx from plain text, with criticisms as Word comments and
+ * suggestions as tracked changes.
+ */
+export function exportDocx(input: DocxExportInput): DocxExportResult {
+  const { text } = input;
+  const author = input.author?.trim() || DEFAULT_AUTHOR;
+  const title = input.title?.trim() || "Untitled";
+  const date = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  const paragraphs = splitParagraphs(text);
+  const skipped: SkippedAnnotation[] = [];
+  const comments: CommentAnchor[] = [];
+  const changes: ChangeAnchor[] = [];
+
+  const paragraphOf = (pos: number) =>
+    paragraphs.find((p) => pos >= p.start && pos < p.end);
+
+  // ── Tracked changes ────────────────────────────────────────────
+  for (const s of input.suggestions ?? []) {
+    if (!s.quote) continue;
+    const span = locate(text, s, changes);
+    if (!span) {
+      const reason = locate(text, s)
+        ? "Overlaps another suggested change."
+        : "Quote not found in document.";
+      skipped.push({ kind: "suggestion", quote: s.quote, reason });
+      continue;
+    }
+
+    const paragraph = paragraphOf(span.start);
+    if (!paragraph || span.end > paragraph.end) {
+      skipped.push({
+        kind: "suggestion",
+        quote: s.quote,
+        reason: "Tracked changes cannot span multiple paragraphs.",
+      });
+      continue;
+    }
+
+    changes.push({ ...span, insert: s.suggestion ?? "" });
+    if (s.reason) {
+      comments.push({ ...span, id: comments.length, text: s.reason });
+    }
+  }
+
+  // ── Comments ───────────────────────────────────────────────────
+  for (const c of input.criticisms ?? []) {
+    if (!c.quote) continue;
+    const span = locate(text, c);
+    // Trim leading/trailing whitespace so the range starts and ends
+    // inside a paragraph rather than in the gap between two.
+    const inner = span && {
+      start: span.start + (c.quote.length - c.quote.trimStart().length),
+      end: span.end - (c.quote.length - c.quote.trimEnd().length),
+    };
+    if (!inner || inner.start >= inner.end) {
+      skipped.push({
+        kind: "criticism",
+        quote: c.quote,
+        reason: "Quote not found in document.",
+      });
+      continue;
+    }
+    comments.push({ ...inner, id: comments.length, text: c.criticism });
+  }
+
+  // ── document.xml ───────────────────────────────────────────────
+  const headingLevels = new Map(
+    (input.structure?.headings ?? []).map((h) => [h.offset, h.level]),
+  );
+  // Revision ids share a number space with comment ids in some readers,
+  // so start them after the last comment.
+  let changeId = comments.length;
+  const changeMeta = `w:author="${escapeXml(author)}" w:date="${date}"`;
+
+  const body = paragraphs
+    .map((p) =>
+      renderParagraph(
+        text,
+        p,
+        headingLevels.get(p.start),
+        comments,
+        changes,
+        changeMeta,
+        () => changeId++,
+      ),
+    )
+    .join("");
+
+  const documentXml =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<w:document xmlns:w="${W_NS}" xmlns:r="${REL_NS}">` +
+    `<w:body>${body || "<w:p/>"}<w:sectPr/></w:body>` +
+    `</w:document>`;
+
+  const bytes = writeZip([
+    { name: "[Content_Types].xml", data: contentTypesXml() },
+    { name: "_rels/.rels", data: packageRelsXml() },
+    { name: "word/document.xml", data: documentXml },
+    { name: "word/_rels/document.xml.rels", data: documentRelsXml() },
+    { name: "word/styles.xml", data: stylesXml() },
+    { name: "word/comments.xml", data: commentsXml(comments, author, date) },
+    { name: "docProps/core.xml", data: coreXml(title, author, date) },
+  ]);
+
+  return { bytes, skipped };
+}
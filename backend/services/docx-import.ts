@@ -0,0 +1,473 @@
+/**
+ * .docx → plain text + structure map.
+ *
+ * Unpacks the OOXML container and walks `word/document.xml` to produce:
+ *  - Plain text in the same shape the chunker expects (blocks separated
+ *    by blank lines, list items on consecutive lines, table rows as
+ *    `cell | cell` lines)
+ *  - A `DocumentStructure` recording where headings, lists and tables
+ *    sit in that text
+ *
+ * Heading levels come from the paragraph styles (`Heading 1`–`Heading 6`,
+ * localised names resolved via `styles.xml`, or an explicit outline
+ * level), so `extractHierarchy` can use them directly instead of
+ * guessing with regexes.
+ *
+ * Usage:
+ * ```ts
+ * const { text, structure } = importDocx(bytes, "report.docx");
+ * const hierarchy = await extractHierarchy(text, embedder, {}, structure.headings);
+ * ```
+ */
+
+import { readZip } from "./zip";
+import type { FlatHeading } from "./hierarchy-extractor";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface ListItem {
+  /** Zero-based nesting level (`w:ilvl`). */
+  level: number;
+  start: number;
+  end: number;
+}
+
+export interface ListBlock {
+  /** `true` for numbered lists, `false` for bullets. */
+  ordered: boolean;
+  start: number;
+  end: number;
+  items: ListItem[];
+}
+
+export interface TableBlock {
+  rows: number;
+  columns: number;
+  start: number;
+  end: number;
+}
+
+export interface DocumentStructure {
+  /** Headings in document order; directly usable by `extractHierarchy`. */
+  headings: FlatHeading[];
+  lists: ListBlock[];
+  tables: TableBlock[];
+}
+
+export interface DocxImportResult {
+  title: string;
+  text: string;
+  structure: DocumentStructure;
+}
+
+// ─── XML helpers ─────────────────────────────────────────────────────
+
+/** Matches one tag (open, close or self-closing) or one run of text. */
+const TOKEN = /<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/** Read a `w:val`-style attribute from a raw attribute string. */
+function attr(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]!) : undefined;
+}
+
+function readXml(
+  entries: Map<string, Uint8Array>,
+  path: string,
+): string | null {
+  const data = entries.get(path);
+  return data ? new TextDecoder().decode(data) : null;
+}
+
+// ─── styles.xml / numbering.xml ──────────────────────────────────────
+
+/**
+ * Map paragraph style ids to heading levels (1–6).
+ *
+ * A style counts as a heading if its name is `heading N` (the built-in
+ * name, regardless of the localised display name), if it declares an
+ * outline level, or if it is based on a style that does.
+ */
+function parseHeadingStyles(stylesXml: string | null): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  const basedOn = new Map<string, string>();
+  const styleRegex = /<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g;
+
+  for (const match of stylesXml.matchAll(styleRegex)) {
+    const attrs = match[1]!;
+    const body = match[2]!;
+    if (attr(attrs, "w:type") !== "paragraph") continue;
+
+    const id = attr(attrs, "w:styleId");
+    if (!id) continue;
+
+    const name = body.match(/<w:name\s+w:val="([^"]*)"/)?.[1] ?? "";
+    const nameLevel = name.match(/^heading\s*([1-6])$/i);
+    const outline = body.match(/<w:outlineLvl\s+w:val="(\d+)"/);
+
+    if (nameLevel) {
+      levels.set(id, Number(nameLevel[1]));
+    } else if (outline && Number(outline[1]) < 6) {
+      levels.set(id, Number(outline[1]) + 1);
+    }
+
+    const parent = body.match(/<w:basedOn\s+w:val="([^"]*)"/)?.[1];
+    if (parent) basedOn.set(id, parent);
+  }
+
+  // Inherit heading levels through `w:basedOn` chains.
+  for (const id of basedOn.keys()) {
+    if (levels.has(id)) continue;
+    const seen = new Set<string>([id]);
+    let parent = basedOn.get(id);
+    while (parent && !seen.has(parent)) {
+      const level = levels.get(parent);
+      if (level !== undefined) {
+        levels.set(id, level);
+        break;
+      }
+      seen.add(parent);
+      parent = basedOn.get(parent);
+    }
+  }
+
+  return levels;
+}
+
+/**
+ * Map `numId:ilvl` to whether that list level is numbered (vs bullets).
+ */
+function parseNumbering(numberingXml: string | null): Map<string, boolean> {
+  const ordered = new Map<string, boolean>();
+  if (!numberingXml) return ordered;
+
+  // abstractNumId → (ilvl → numFmt)
+  const abstractFormats = new Map<string, Map<string, string>>();
+  const abstractRegex =
+    /<w:abstractNum\b[^>]*w:abstractNumId="(\d+)"[^>]*>([\s\S]*?)<\/w:abstractNum>/g;
+  for (const match of numberingXml.matchAll(abstractRegex)) {
+    const formats = new Map<string, string>();
+    const levelRegex = /<w:lvl\b[^>]*w:ilvl="(\d+)"[^>]*>([\s\S]*?)<\/w:lvl>/g;
+    for (const lvl of match[2]!.matchAll(levelRegex)) {
+      const fmt = lvl[2]!.match(/<w:numFmt\s+w:val="([^"]*)"/)?.[1] ?? "";
+      formats.set(lvl[1]!, fmt);
+    }
+    abstractFormats.set(match[1]!, formats);
+  }
+
+  const numRegex = /<w:num\b[^>]*w:numId="(\d+)"[^>]*>([\s\S]*?)<\/w:num>/g;
+  for (const match of numberingXml.matchAll(numRegex)) {
+    const abstractId = match[2]!.match(/<w:abstractNumId\s+w:val="(\d+)"/)?.[1];
+    const formats = abstractId ? abstractFormats.get(abstractId) : undefined;
+    if (!formats) continue;
+    for (const [ilvl, fmt] of formats) {
+      ordered.set(`${match[1]}:${ilvl}`, fmt !== "bullet" && fmt !== "none");
+    }
+  }
+
+  return ordered;
+}
+
+function parseTitle(coreXml: string | null): string | null {
+  const title = coreXml?.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1];
+  return title ? decodeEntities(title).trim() || null : null;
+}
+
+// ─── document.xml ────────────────────────────────────────────────────
+
+interface ParagraphInfo {
+  text: string;
+  headingLevel: number | null;
+  list: { numId: string; level: number } | null;
+}
+
+type Block =
+  | { kind: "paragraph"; paragraph: ParagraphInfo }
+  | { kind: "table"; rows: string[][] };
+
+/** A paragraph being read, with the numbering seen in its properties. */
+interface OpenParagraph {
+  info: ParagraphInfo;
+  numId: string | null;
+  ilvl: number;
+}
+
+/**
+ * Tokenise the document body into paragraphs and tables.
+ *
+ * Only text inside `w:t` is kept, so deleted runs (`w:delText`), field
+ * instructions and drawing alt text are ignored. Nested tables are
+ * flattened into the text of their enclosing cell. Paragraphs nested in
+ * another one (text boxes, `w:txbxContent`) follow it as paragraphs of
+ * their own; the VML copy Word keeps in `mc:Fallback` is skipped.
+ */
+function parseBody(
+  documentXml: string,
+  headingStyles: Map<string, number>,
+): Block[] {
+  const blocks: Block[] = [];
+
+  /** Open paragraphs, innermost last. */
+  const open: OpenParagraph[] = [];
+  /** Paragraphs closed inside another, emitted after it. */
+  let nested: ParagraphInfo[] = [];
+  let inText = false;
+  let fallbackDepth = 0;
+  let tableDepth = 0;
+  let rows: string[][] = [];
+  let row: string[] = [];
+  let cell: string[] = [];
+
+  const emit = (paragraph: ParagraphInfo) => {
+    if (tableDepth > 0) {
+      if (paragraph.text.trim()) cell.push(paragraph.text.trim());
+    } else {
+      blocks.push({ kind: "paragraph", paragraph });
+    }
+  };
+
+  for (const match of documentXml.matchAll(TOKEN)) {
+    const [, closing, tag, attrs = "", selfClosing, textRun] = match;
+
+    if (tag === "mc:Fallback" && !selfClosing) {
+      fallbackDepth += closing ? -1 : 1;
+      continue;
+    }
+    if (fallbackDepth > 0) continue;
+
+    const current = open[open.length - 1];
+    const paragraph = current?.info ?? null;
+
+    if (textRun !== undefined) {
+      if (inText && paragraph) paragraph.text += decodeEntities(textRun);
+      continue;
+    }
+
+    if (closing) {
+      switch (tag) {
+        case "w:t":
+          inText = false;
+          break;
+        case "w:p": {
+          const closed = open.pop();
+          if (!closed) break;
+          if (closed.numId !== null && closed.numId !== "0") {
+            closed.info.list = { numId: closed.numId, level: closed.ilvl };
+          }
+          if (open.length > 0) {
+            nested.push(closed.info);
+          } else {
+            emit(closed.info);
+            nested.forEach(emit);
+            nested = [];
+          }
+          break;
+        }
+        case "w:tc":
+          if (tableDepth === 1) {
+            row.push(cell.join(" "));
+            cell = [];
+          }
+          break;
+        case "w:tr":
+          if (tableDepth === 1) {
+            rows.push(row);
+            row = [];
+          }
+          break;
+        case "w:tbl":
+          tableDepth--;
+          if (tableDepth === 0) {
+            blocks.push({ kind: "table", rows });
+            rows = [];
+          }
+          break;
+      }
+      continue;
+    }
+
+    switch (tag) {
+      case "w:p":
+        if (selfClosing) break;
+        open.push({
+          info: { text: "", headingLevel: null, list: null },
+          numId: null,
+          ilvl: 0,
+        });
+        break;
+      case "w:t":
+        inText = !selfClosing;
+        break;
+      case "w:tab":
+        // Tab stops in `w:tabs` carry a position; run-level tabs don't.
+        if (paragraph && attr(attrs, "w:pos") === undefined) {
+          paragraph.text += "\t";
+        }
+        break;
+      case "w:br":
+      case "w:cr":
+        if (paragraph) paragraph.text += "\n";
+        break;
+      case "w:pStyle": {
+        const level = headingStyles.get(attr(attrs, "w:val") ?? "");
+        if (paragraph && level !== undefined) paragraph.headingLevel = level;
+        break;
+      }
+      case "w:outlineLvl": {
+        const level = Number(attr(attrs, "w:val"));
+        if (paragraph && level < 6) paragraph.headingLevel = level + 1;
+        break;
+      }
+      case "w:numId":
+        if (current) current.numId = attr(attrs, "w:val") ?? null;
+        break;
+      case "w:ilvl":
+        if (current) current.ilvl = Number(attr(attrs, "w:val") ?? 0);
+        break;
+      case "w:tbl":
+        tableDepth++;
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+// ─── Text assembly ───────────────────────────────────────────────────
+
+/**
+ * Lay blocks out as plain text and record the offsets of each structural
+ * element. Paragraphs and tables are separated by blank lines; items of
+ * the same list are kept on consecutive lines so they chunk together.
+ */
+function assemble(
+  blocks: Block[],
+  numbering: Map<string, boolean>,
+): { text: string; structure: DocumentStructure } {
+  const structure: DocumentStructure = { headings: [], lists: [], tables: [] };
+  let text = "";
+  let currentList: ListBlock | null = null;
+  let listCounters: number[] = [];
+
+  const startBlock = (separator: string) => {
+    if (text.length > 0) text += separator;
+    return text.length;
+  };
+
+  for (const block of blocks) {
+    if (block.kind === "table") {
+      const lines = block.rows
+        .map((cells) => cells.join(" | ").trimEnd())
+        .filter((line) => line.replace(/[\s|]/g, "").length > 0);
+      if (lines.length === 0) continue;
+
+      currentList = null;
+      const start = startBlock("\n\n");
+      text += lines.join("\n");
+      structure.tables.push({
+        rows: block.rows.length,
+        columns: Math.max(0, ...block.rows.map((r) => r.length)),
+        start,
+        end: text.length,
+      });
+      continue;
+    }
+
+    const { paragraph } = block;
+    const content = paragraph.text.trim();
+    if (!content) continue;
+
+    if (paragraph.list && paragraph.headingLevel === null) {
+      const { numId, level } = paragraph.list;
+      const ordered = numbering.get(`${numId}:${level}`) ?? false;
+
+      if (!currentList) {
+        currentList = { ordered, start: 0, end: 0, items: [] };
+        currentList.start = startBlock("\n\n");
+        listCounters = [];
+        structure.lists.push(currentList);
+      } else {
+        startBlock("\n");
+      }
+
+      listCounters = listCounters.slice(0, level + 1);
+      listCounters[level] = (listCounters[level] ?? 0) + 1;
+      for (let i = 0; i < level; i++) listCounters[i] ??= 1;
+
+      const marker = ordered ? `${listCounters[level]}.` : "-";
+      const itemStart = text.length;
+      text += `${"  ".repeat(level)}${marker} ${content}`;
+      currentList.items.push({ level, start: itemStart, end: text.length });
+      currentList.end = text.length;
+      continue;
+    }
+
+    currentList = null;
+    const start = startBlock("\n\n");
+    text += content;
+
+    if (paragraph.headingLevel !== null) {
+      structure.headings.push({
+        level: paragraph.headingLevel,
+        title: content.replace(/\s+/g, " "),
+        offset: start,
+      });
+    }
+  }
+
+  return { text, structure };
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Convert a .docx file into plain text and a structure map.
+ *
+ * @param bytes     Raw .docx file contents.
+ * @param filename  Used as the title when the document has none.
+ * @throws          If the file is not a valid .docx package.
+ */
+export function importDocx(
+  bytes: Uint8Array,
+  filename = "Untitled",
+): DocxImportResult {
+  const entries = readZip(bytes);
+  const documentXml = readXml(entries, "word/document.xml");
+  if (!documentXml) {
+    throw new Error("Not a .docx file: word/document.xml is missing.");
+  }
+
+  const headingStyles = parseHeadingStyles(readXml(entries, "word/styles.xml"));
+  const numbering = parseNumbering(readXml(entries, "word/numbering.xml"));
+  const blocks = parseBody(documentXml, headingStyles);
+  const { text, structure } = assemble(blocks, numbering);
+
+  const title =
+    parseTitle(readXml(entries, "docProps/core.xml")) ??
+    filename.replace(/\.docx$/i, "");
+
+  return { title, text, structure };
+}
@@ -8,7 +8,8 @@
  *  - Generate document-level and section-level summaries
  *
  * Strategies (selected automatically):
- *  1. **heading**              – Markdown `#`/`##`, ALL-CAPS lines, numbered sections
+ *  1. **heading**              – Markdown `#`/`##`, ALL-CAPS lines, numbered sections,
+ *                                or headings supplied from the source document
  *  2. **embedding-similarity** – Sliding-window cosine similarity over paragraph
  *                                embeddings to detect topic shifts (headerless docs)
  *  3. **positional**           – Last resort: evenly split into N virtual sections
@@ -31,6 +32,20 @@ export interface HierarchyOptions {
   maxOutlineDepth?: number;
 }
 
+/** Every `HierarchyOptions` key; a map built with none of them set is the default one. */
+export const HIERARCHY_OPTION_KEYS = [
+  "similarityThreshold",
+  "minSectionSize",
+  "docSummaryMaxSentences",
+  "sectionSummaryMaxSentences",
+  "maxOutlineDepth",
+] as const satisfies readonly (keyof HierarchyOptions)[];
+
+/** Whether `options` sets none of the `HierarchyOptions`. */
+export function isDefaultHierarchyOptions(options?: HierarchyOptions): boolean {
+  return HIERARCHY_OPTION_KEYS.every((key) => options?.[key] === undefined);
+}
+
 export interface HeadingNode {
   level: number;
   title: string;
@@ -46,12 +61,18 @@ export interface SectionSummary {
   endOffset: number;
 }
 
+export const HIERARCHY_STRATEGIES = [
+  "heading",
+  "embedding-similarity",
+  "positional",
+] as const;
+
 export interface HierarchyMap {
   headings: HeadingNode[];
   outline: string;
   documentSummary: string;
   sectionSummaries: SectionSummary[];
-  strategy: "heading" | "embedding-similarity" | "positional";
+  strategy: (typeof HIERARCHY_STRATEGIES)[number];
 }
 
 // ─── Defaults ────────────────────────────────────────────────────────
@@ -70,7 +91,7 @@ function resolveOptions(opts?: HierarchyOptions): Required<HierarchyOptions> {
 
 // ─── Heading extraction ──────────────────────────────────────────────
 
-interface FlatHeading {
+export interface FlatHeading {
   level: number;
   title: string;
   offset: number; // character offset where the heading line starts
@@ -393,19 +414,27 @@ function generateSectionSummaries(
  * Extract the hierarchical structure from a document.
  *
  * Strategy selection:
- *  1. If headings are found → `heading`
+ *  1. If headings are known (e.g. from .docx styles) or found → `heading`
  *  2. If an embedder is provided → `embedding-similarity`
  *  3. Otherwise → `positional`
+ *
+ * @param knownHeadings  Headings taken from the source document's own
+ *                       structure. When non-empty they replace the
+ *                       regex-based `extractHeadings` guesswork.
  */
 export async function extractHierarchy(
   text: string,
   embedder?: Embedder,
   options?: HierarchyOptions,
+  knownHeadings?: FlatHeading[],
 ): Promise<HierarchyMap> {
   const opts = resolveOptions(options);
 
   // ── Try heading extraction first ───────────────────────────────
-  const flatHeadings = extractHeadings(text);
+  const flatHeadings =
+    knownHeadings && knownHeadings.length > 0
+      ? [...knownHeadings].sort((a, b) => a.offset - b.offset)
+      : extractHeadings(text);
 
   let headings: HeadingNode[];
   let strategy: HierarchyMap["strategy"];
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { JobStore, type JobStatus } from "../db/jobstore";
+import { JobQueue, currentJob, type JobContext } from "./jobs";
+
+let store: JobStore;
+let queue: JobQueue;
+
+beforeEach(() => {
+  store = new JobStore(":memory:");
+  queue = new JobQueue(store, { concurrency: 1 });
+});
+
+/** Wait until the job reaches `status`. */
+async function settled(id: string, status: JobStatus) {
+  for (let i = 0; i < 200; i++) {
+    const job = queue.get(id)!;
+    if (job.status === status) return job;
+    await Bun.sleep(5);
+  }
+  throw new Error(`Job ${id} is ${queue.get(id)?.status}, not ${status}.`);
+}
+
+/** A handler that runs until `finish` is called, exposing its context. */
+function controlled() {
+  const runs: JobContext[] = [];
+  let finish!: (result: unknown) => void;
+  queue.define("slow", (_input, context) => {
+    runs.push(context);
+    return new Promise((resolve) => (finish = resolve));
+  });
+  return { runs, finish: (result: unknown) => finish(result) };
+}
+
+describe("JobQueue", () => {
+  test("only queues jobs until started", async () => {
+    queue.define<{ n: number }>("double", async (input) => input.n * 2);
+    const job = queue.enqueue("double", { n: 21 });
+    expect(job.status).toBe("queued");
+
+    await Bun.sleep(10);
+    expect(queue.get(job.id)!.status).toBe("queued");
+
+    queue.start();
+    expect((await settled(job.id, "succeeded")).result).toBe(42);
+  });
+
+  test("records chunks as they finish and the handler's job", async () => {
+    queue.define("chunks", async (_input, { onChunk }) => {
+      onChunk({ index: 0, total: 2, results: ["a"] });
+      onChunk({ index: 1, total: 2, results: ["b"] });
+      return currentJob()?.kind;
+    });
+    queue.start();
+
+    const job = await settled(queue.enqueue("chunks", null).id, "succeeded");
+    expect(job.progress).toEqual({ completed: 2, total: 2 });
+    expect(job.chunks.map((c) => c.results)).toEqual([["a"], ["b"]]);
+    expect(job.result).toBe("chunks");
+    expect(currentJob()).toBeUndefined();
+  });
+
+  test("marks a job failed with the handler's error", async () => {
+    const error = console.error;
+    console.error = () => {};
+    try {
+      queue.define("broken", async () => {
+        throw new Error("Model unavailable.");
+      });
+      queue.start();
+
+      const job = await settled(queue.enqueue("broken", null).id, "failed");
+      expect(job.error).toBe("Model unavailable.");
+    } finally {
+      console.error = error;
+    }
+  });
+
+  test("runs jobs one at a time by default", async () => {
+    const { runs, finish } = controlled();
+    queue.start();
+    const first = queue.enqueue("slow", null, "key");
+    const second = queue.enqueue("slow", null, "key");
+
+    await settled(first.id, "running");
+    expect(queue.get(second.id)!.status).toBe("queued");
+    expect(queue.unfinished("key")).toBe(2);
+    expect(queue.unfinished("other")).toBe(0);
+
+    finish("one");
+    await settled(second.id, "running");
+    expect(runs).toHaveLength(2);
+    finish("two");
+    expect((await settled(second.id, "succeeded")).result).toBe("two");
+    expect(queue.unfinished("key")).toBe(0);
+  });
+
+  test("aborts a cancelled job and ignores what it reports after", async () => {
+    const { runs, finish } = controlled();
+    queue.start();
+    const job = queue.enqueue("slow", null);
+    await settled(job.id, "running");
+
+    expect(queue.cancel(job.id)!.status).toBe("cancelled");
+    expect(runs[0]!.signal.aborted).toBe(true);
+
+    runs[0]!.onChunk({ index: 0, total: 1, results: ["late"] });
+    finish("late");
+    await Bun.sleep(10);
+    const cancelled = queue.get(job.id)!;
+    expect(cancelled).toMatchObject({ status: "cancelled", result: null });
+    expect(cancelled.chunks).toEqual([]);
+  });
+
+  test("cancels queued jobs and leaves finished ones alone", async () => {
+    queue.define("noop", async () => "done");
+    const queued = queue.enqueue("noop", null);
+    expect(queue.cancel(queued.id)!.status).toBe("cancelled");
+
+    queue.start();
+    const done = await settled(queue.enqueue("noop", null).id, "succeeded");
+    expect(queue.cancel(done.id)!.status).toBe("succeeded");
+    expect(queue.cancel("missing")).toBeNull();
+  });
+
+  test("reruns jobs a stopped server left running", async () => {
+    const interrupted = store.create({ kind: "resume", input: { n: 1 } });
+    store.start(interrupted.id);
+    store.saveChunk(interrupted.id, { index: 0, total: 2, results: ["old"] });
+
+    const log = console.log;
+    console.log = () => {};
+    try {
+      queue.define<{ n: number }>("resume", async (input) => input.n + 1);
+      queue.start();
+    } finally {
+      console.log = log;
+    }
+
+    const job = await settled(interrupted.id, "succeeded");
+    expect(job.result).toBe(2);
+    expect(job.chunks).toEqual([]);
+  });
+
+  test("refuses kinds without a handler", () => {
+    expect(() => queue.enqueue("unknown", null)).toThrow(
+      'No handler for job kind "unknown".',
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Background job queue for long-running analyses.
+ *
+ * Routes enqueue a job instead of holding the request open; the queue
+ * runs queued jobs (`JOB_CONCURRENCY` at a time, default 1) with the
+ * handler registered for their kind, saving each finished chunk as it
+ * comes in. State lives in a `JobStore`, so on `start()` jobs a stopped
+ * server left running are queued again and run from the beginning.
+ *
+ * Cancelling a queued job settles it at once; a running one has its
+ * handler's `signal` aborted and is marked cancelled straight away, so
+ * whatever the handler still reports is ignored.
+ *
+ * Usage:
+ * ```ts
+ * const jobs = new JobQueue(new JobStore());
+ * jobs.define<{ text: string }>("criticize", (input, { signal, onChunk }) =>
+ *   criticizeDocument(input.text, { signal, onChunk }),
+ * );
+ * jobs.start();
+ * const job = jobs.enqueue("criticize", { text });
+ * jobs.cancel(job.id);
+ * ```
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { Job, JobStore, JobSummary } from "../db/jobstore";
+import type { ChunkProgress } from "./progress";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface JobContext {
+  /** Aborted when the job is cancelled. */
+  signal: AbortSignal;
+  /** Record a finished chunk; it shows up in the job's progress. */
+  onChunk: (progress: ChunkProgress<unknown>) => void;
+}
+
+/** Runs one kind of job; the resolved value becomes the job's result. */
+export type JobHandler<TInput> = (
+  input: TInput,
+  context: JobContext,
+) => Promise<unknown>;
+
+export interface JobQueueOptions {
+  /** Jobs run at once (default `JOB_CONCURRENCY`, else 1). */
+  concurrency?: number;
+  /** Finished jobs older than this are deleted on `start()` (default 7). */
+  retentionDays?: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const jobScope = new AsyncLocalStorage<Job>();
+
+/**
+ * The job being run, from anywhere in its handler's async call chain;
+ * `undefined` outside one.
+ */
+export function currentJob(): Job | undefined {
+  return jobScope.getStore();
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function envConcurrency(): number {
+  const value = Number(process.env.JOB_CONCURRENCY?.trim());
+  return Number.isInteger(value) && value > 0 ? value : 1;
+}
+
+// ─── JobQueue ────────────────────────────────────────────────────────
+
+export class JobQueue {
+  private store: JobStore;
+  private concurrency: number;
+  private retentionDays: number;
+  private handlers = new Map<string, JobHandler<any>>();
+  /** Abort controllers of the jobs running now, by id. */
+  private running = new Map<string, AbortController>();
+  private started = false;
+
+  constructor(store: JobStore, options: JobQueueOptions = {}) {
+    this.store = store;
+    this.concurrency = options.concurrency ?? envConcurrency();
+    this.retentionDays = options.retentionDays ?? 7;
+  }
+
+  /** Register the handler for a kind of job. */
+  define<TInput>(kind: string, handler: JobHandler<TInput>): void {
+    this.handlers.set(kind, handler);
+  }
+
+  /**
+   * Begin running queued jobs, including ones a previous server left
+   * unfinished. Until then, jobs are only queued.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    const requeued = this.store.requeueInterrupted();
+    if (requeued > 0) console.log(`Requeued ${requeued} interrupted job(s).`);
+    this.store.prune(new Date(Date.now() - this.retentionDays * DAY_MS));
+    this.pump();
+  }
+
+  /** Queue a job of a registered kind. */
+  enqueue(kind: string, input: unknown, apiKeyId?: string): Job {
+    if (!this.handlers.has(kind)) {
+      throw new Error(`No handler for job kind "${kind}".`);
+    }
+    const job = this.store.create({ kind, input, apiKeyId });
+    this.pump();
+    return job;
+  }
+
+  get(id: string): Job | null {
+    return this.store.get(id);
+  }
+
+  list(apiKeyId?: string): JobSummary[] {
+    return this.store.list({ apiKeyId });
+  }
+
+  /** How many of the key's jobs are queued or running. */
+  unfinished(apiKeyId: string): number {
+    return this.store.countUnfinished(apiKeyId);
+  }
+
+  /**
+   * Cancel a queued or running job.
+   *
+   * @returns The job as it is now, or `null` if it doesn't exist. A job
+   *          that had already finished is returned unchanged.
+   */
+  cancel(id: string): Job | null {
+    if (this.store.finish(id, "cancelled", { error: "Cancelled." })) {
+      this.running.get(id)?.abort(new Error("Job cancelled."));
+    }
+    return this.store.get(id);
+  }
+
+  // ── Running ─────────────────────────────────────────────────────
+
+  /** Start queued jobs while there's room. */
+  private pump(): void {
+    if (!this.started) return;
+    for (const id of this.store.queued()) {
+      if (this.running.size >= this.concurrency) return;
+      if (this.store.start(id)) void this.run(id);
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const abort = new AbortController();
+    this.running.set(id, abort);
+    const job = this.store.get(id)!;
+
+    try {
+      const handler = this.handlers.get(job.kind);
+      if (!handler) throw new Error(`No handler for job kind "${job.kind}".`);
+
+      // Lets code deep in the handler (e.g. LLM usage metering) find
+      // the job it runs for; see `currentJob()`.
+      const result = await jobScope.run(job, () =>
+        handler(job.input, {
+          signal: abort.signal,
+          onChunk: (progress) => this.store.saveChunk(id, progress),
+        }),
+      );
+      this.store.finish(id, "succeeded", { result });
+    } catch (err: any) {
+      if (!abort.signal.aborted) {
+        console.error(`Job ${id} (${job.kind}) failed:`, err);
+        this.store.finish(id, "failed", { error: err?.message ?? String(err) });
+      }
+    } finally {
+      this.running.delete(id);
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Progress reporting shared by the chunk-by-chunk services.
+ *
+ * Long-running services accept these callbacks so routes can stream
+ * partial results (SSE) instead of waiting for the whole document, and
+ * an `AbortSignal` so work stops when the client goes away.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface ChunkProgress<T> {
+  /** Zero-based index of the chunk that just finished. */
+  index: number;
+  /** Total number of chunks being processed. */
+  total: number;
+  /** Results produced for this chunk alone. */
+  results: T[];
+}
+
+export interface ProgressOptions<T> {
+  /** Called after each chunk finishes, in chunk order. */
+  onChunk?: (progress: ChunkProgress<T>) => void;
+  /** Called with model output as it is generated. */
+  onToken?: (text: string) => void;
+  /** Stop processing further chunks once aborted. */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test";
+import type { CriticismResult } from "./criticism";
+import type { SuggestionResult } from "./suggest";
+import { mergeCriticisms, mergeSuggestions } from "./review-merge";
+
+const text = "The results were significant but the sample was small.";
+
+/** A criticism of `quote`, located at its first occurrence in `text`. */
+function criticism(
+  quote: string,
+  remark: string,
+  fields: Partial<CriticismResult> = {},
+): CriticismResult {
+  const start = text.indexOf(quote);
+  return {
+    quote,
+    criticism: remark,
+    start,
+    end: start + quote.length,
+    ...fields,
+  };
+}
+
+/** A suggestion replacing `quote`, located at its first occurrence in `text`. */
+function suggestion(quote: string, replacement: string): SuggestionResult {
+  const start = text.indexOf(quote);
+  return {
+    quote,
+    suggestion: replacement,
+    reason: "",
+    start,
+    end: start + quote.length,
+  };
+}
+
+describe("mergeCriticisms", () => {
+  test("merges criticisms of one category on the same text", () => {
+    const merged = mergeCriticisms(
+      [
+        criticism("results were significant", "Give the p-value.", {
+          category: "Evidence",
+          severity: "minor",
+        }),
+        criticism("were significant", "give the p-value. ", {
+          category: "Evidence",
+        }),
+        criticism("significant", "Say how significant.", {
+          category: "Evidence",
+          severity: "major",
+        }),
+      ],
+      ["minor", "major"],
+    );
+
+    expect(merged).toEqual([
+      criticism(
+        "results were significant",
+        "Give the p-value.\n\nSay how significant.",
+        { category: "Evidence", severity: "major" },
+      ),
+    ]);
+  });
+
+  test("keeps other categories and distant text apart", () => {
+    const items = [
+      criticism("sample was small", "Too few.", { category: "Evidence" }),
+      criticism("results were significant", "Vague.", { category: "Clarity" }),
+      criticism("were significant", "Unsupported.", { category: "Evidence" }),
+    ];
+    expect(mergeCriticisms(items)).toEqual([items[1]!, items[2]!, items[0]!]);
+  });
+
+  test("never merges separate items but puts them in document order", () => {
+    const rule = criticism("significant", "Avoid this word.", {
+      category: "Evidence",
+    });
+    const unlocated = { quote: "?", criticism: "Somewhere." };
+    expect(
+      mergeCriticisms(
+        [
+          criticism("sample", "Describe it.", { category: "Evidence" }),
+          criticism("significant", "Unsupported.", { category: "Evidence" }),
+          { quote: "x", criticism: "Lost." },
+          { quote: " X", criticism: "lost." },
+        ],
+        [],
+        [unlocated, rule],
+      ),
+    ).toEqual([
+      criticism("significant", "Unsupported.", { category: "Evidence" }),
+      rule,
+      criticism("sample", "Describe it.", { category: "Evidence" }),
+      unlocated,
+      { quote: "x", criticism: "Lost." },
+    ]);
+  });
+});
+
+describe("mergeSuggestions", () => {
+  test("keeps identical suggestions once", () => {
+    const item = suggestion("small", "tiny");
+    expect(mergeSuggestions([item, { ...item }])).toEqual({
+      suggestions: [item],
+      conflicts: [],
+    });
+  });
+
+  test("lets a suggestion that includes the others' edits replace them", () => {
+    const outer = suggestion("the sample was small", "the samples were tiny");
+    expect(
+      mergeSuggestions([
+        suggestion("sample was", "samples were"),
+        outer,
+        suggestion("small", "tiny"),
+      ]),
+    ).toEqual({ suggestions: [outer], conflicts: [] });
+  });
+
+  test("reports incompatible overlapping suggestions", () => {
+    const a = suggestion("results were", "findings were");
+    const b = suggestion("were significant", "mattered");
+    const other = suggestion("small", "tiny");
+    expect(mergeSuggestions([b, other, a])).toEqual({
+      suggestions: [other],
+      conflicts: [{ start: a.start!, end: b.end!, suggestions: [a, b] }],
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Merging of review results from overlapping chunks.
+ *
+ * The review services chunk with overlap, so text near a chunk boundary
+ * is reviewed twice. Results are merged by their anchored range:
+ *  - criticisms of the same category on (mostly) the same range become
+ *    one comment
+ *  - suggestions on overlapping ranges are kept once when they agree —
+ *    identical, or one edit already containing the others — and are
+ *    reported as a conflict when they don't, instead of both being kept
+ *
+ * Unlocated results can't be compared by range; exact repeats of them
+ * are dropped.
+ *
+ * Usage:
+ * ```ts
+ * const criticisms = mergeCriticisms(allCriticisms);
+ * const { suggestions, conflicts } = mergeSuggestions(allSuggestions);
+ * ```
+ */
+
+import type { CriticismResult } from "./criticism";
+import type { SuggestionResult } from "./suggest";
+import type { Span } from "./anchor";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface SuggestionConflict extends Span {
+  /** The incompatible suggestions, in document order. */
+  suggestions: SuggestionResult[];
+}
+
+export interface MergedSuggestions {
+  suggestions: SuggestionResult[];
+  conflicts: SuggestionConflict[];
+}
+
+type Located<T> = T & Span;
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/**
+ * Criticisms whose overlap covers at least this share of the shorter
+ * range are treated as comments on the same text.
+ */
+const SAME_TARGET_RATIO = 0.5;
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function isLocated<T extends { start?: number; end?: number }>(
+  item: T,
+): item is Located<T> {
+  return item.start !== undefined && item.end !== undefined;
+}
+
+function overlapLength(a: Span, b: Span): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+function sameTarget(a: Span, b: Span): boolean {
+  const shorter = Math.min(a.end - a.start, b.end - b.start);
+  return shorter > 0 && overlapLength(a, b) / shorter >= SAME_TARGET_RATIO;
+}
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Drop repeats that have the same value for `key`, keeping the first. */
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Group items into clusters of transitively matching items, each sorted
+ * and the clusters in document order.
+ */
+function cluster<T extends Span>(
+  items: T[],
+  matches: (a: T, b: T) => boolean,
+): T[][] {
+  const sorted = [...items].sort((a, b) => a.start - b.start || a.end - b.end);
+  const clusters: T[][] = [];
+  for (const item of sorted) {
+    const home = clusters.find((c) => c.some((other) => matches(item, other)));
+    if (home) home.push(item);
+    else clusters.push([item]);
+  }
+  return clusters;
+}
+
+// ─── Criticisms ──────────────────────────────────────────────────────
+
+/**
+ * Merge criticisms of the same category on the same text into one
+ * comment anchored on the longest quote, joining their distinct remarks.
+ * The merged comment keeps the highest severity on `severityScale`
+ * (least severe first).
+ *
+ * @param separate  Criticisms that are never merged (e.g. rule-based
+ *                  ones that are already exact); they're only placed in
+ *                  document order among the rest.
+ */
+export function mergeCriticisms(
+  items: CriticismResult[],
+  severityScale: string[] = [],
+  separate: CriticismResult[] = [],
+): CriticismResult[] {
+  const located = items.filter(isLocated);
+  const unlocated = items.filter((c) => !isLocated(c));
+  const sameComment = (a: Located<CriticismResult>, b: typeof a) =>
+    a.category === b.category && sameTarget(a, b);
+
+  const merged = cluster(located, sameComment).map((group) => {
+    const widest = group.reduce((a, b) =>
+      b.end - b.start > a.end - a.start ? b : a,
+    );
+    const remarks = uniqueBy(
+      group.map((c) => c.criticism),
+      normalizeText,
+    );
+    const severity = group.reduce<string | undefined>(
+      (worst, c) =>
+        c.severity !== undefined &&
+        (worst === undefined ||
+          severityScale.indexOf(c.severity) > severityScale.indexOf(worst))
+          ? c.severity
+          : worst,
+      undefined,
+    );
+    return {
+      ...widest,
+      criticism: remarks.join("\n\n"),
+      ...(severity !== undefined && { severity }),
+    };
+  });
+
+  return [
+    ...[...merged, ...separate.filter(isLocated)].sort(
+      (a, b) => a.start - b.start || a.end - b.end,
+    ),
+    ...separate.filter((c) => !isLocated(c)),
+    ...uniqueBy(
+      unlocated,
+      (c) => `${normalizeText(c.quote)}\u0000${normalizeText(c.criticism)}`,
+    ),
+  ];
+}
+
+// ─── Suggestions ─────────────────────────────────────────────────────
+
+/**
+ * If `outer` covers every other suggestion and applying them all to its
+ * quote yields exactly its replacement, `outer` already includes them.
+ */
+function subsumesAll(
+  outer: Located<SuggestionResult>,
+  others: Located<SuggestionResult>[],
+): boolean {
+  let rewritten = "";
+  let cursor = outer.start;
+  for (const s of others) {
+    if (s.start < cursor || s.end > outer.end) return false;
+    rewritten +=
+      outer.quote.slice(cursor - outer.start, s.start - outer.start) +
+      s.suggestion;
+    cursor = s.end;
+  }
+  rewritten += outer.quote.slice(cursor - outer.start);
+  return rewritten === outer.suggestion;
+}
+
+/**
+ * Reconcile suggestions with overlapping ranges: identical ones are kept
+ * once, a suggestion that already contains the others' edits replaces
+ * them, and anything else is reported as a conflict.
+ */
+export function mergeSuggestions(items: SuggestionResult[]): MergedSuggestions {
+  const located = items.filter(isLocated);
+  const unlocated = items.filter((s) => !isLocated(s));
+
+  const suggestions: SuggestionResult[] = [];
+  const conflicts: SuggestionConflict[] = [];
+
+  for (const group of cluster(located, (a, b) => overlapLength(a, b) > 0)) {
+    const distinct = uniqueBy(
+      group,
+      (s) => `${s.start}:${s.end}\u0000${s.suggestion}`,
+    );
+    if (distinct.length === 1) {
+      suggestions.push(distinct[0]!);
+      continue;
+    }
+
+    const outer = distinct.find((candidate) =>
+      subsumesAll(
+        candidate,
+        distinct.filter((s) => s !== candidate),
+      ),
+    );
+    if (outer) {
+      suggestions.push(outer);
+      continue;
+    }
+
+    conflicts.push({
+      start: Math.min(...distinct.map((s) => s.start)),
+      end: Math.max(...distinct.map((s) => s.end)),
+      suggestions: distinct,
+    });
+  }
+
+  suggestions.push(
+    ...uniqueBy(unlocated, (s) => `${s.quote}\u0000${s.suggestion}`),
+  );
+  return { suggestions, conflicts };
+}
@@ -0,0 +1,163 @@
+/**
+ * Named review profiles for `/analyze/criticize`.
+ *
+ * Profiles are defined in `backend/review-profiles.json` (or the file
+ * named by `REVIEW_PROFILES_PATH`) and re-read whenever it changes:
+ *
+ * ```json
+ * {
+ *   "default": "general",
+ *   "profiles": {
+ *     "legal": {
+ *       "description": "Contracts and policies.",
+ *       "persona": "an experienced commercial lawyer",
+ *       "focusAreas": ["Ambiguity", "Undefined terms"],
+ *       "severityScale": ["low", "medium", "high"],
+ *       "tone": "Precise and formal.",
+ *       "bannedPhrases": ["and/or"]
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * `focusAreas` double as the categories a criticism can have, and
+ * `severityScale` is ordered from least to most severe.
+ *
+ * Usage:
+ * ```ts
+ * const profile = getReviewProfile("legal"); // null if unknown
+ * const criticisms = await criticizeDocument(text, { profile });
+ * ```
+ */
+
+import { readFileSync, statSync } from "fs";
+import { resolve } from "path";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface ReviewProfile {
+  name: string;
+  description: string;
+  /** Who the model should review as, e.g. "a senior copy editor". */
+  persona: string;
+  /** What to look for; also the allowed criticism categories. */
+  focusAreas: string[];
+  /** Severity labels, least severe first. */
+  severityScale: string[];
+  /** How criticisms should be worded. */
+  tone: string;
+  /** Phrases flagged wherever they appear, without asking the model. */
+  bannedPhrases: string[];
+}
+
+interface ProfilesFile {
+  default?: string;
+  profiles: Record<string, Omit<ReviewProfile, "name">>;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+const PROFILES_PATH =
+  process.env.REVIEW_PROFILES_PATH ??
+  resolve(import.meta.dir, "../review-profiles.json");
+
+/** Category given to criticisms whose category isn't in the profile. */
+export const OTHER_CATEGORY = "Other";
+
+/** Used when the profiles file is missing or has no usable default. */
+const FALLBACK_PROFILE: ReviewProfile = {
+  name: "general",
+  description: "General editorial review for any document.",
+  persona: "an expert document reviewer and editor",
+  focusAreas: ["Clarity", "Structure", "Grammar", "Style"],
+  severityScale: ["minor", "moderate", "major"],
+  tone: "Concise and constructive.",
+  bannedPhrases: [],
+};
+
+// ─── Loading ─────────────────────────────────────────────────────────
+
+let cache: {
+  mtimeMs: number;
+  profiles: Map<string, ReviewProfile>;
+  defaultName: string;
+} | null = null;
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string" && !!v.trim())
+    : [];
+}
+
+/** Fill in missing fields so a partial profile is still usable. */
+function toProfile(name: string, raw: Partial<ReviewProfile>): ReviewProfile {
+  const focusAreas = stringList(raw.focusAreas);
+  const severityScale = stringList(raw.severityScale);
+  return {
+    name,
+    description: raw.description ?? "",
+    persona: raw.persona || FALLBACK_PROFILE.persona,
+    focusAreas: focusAreas.length ? focusAreas : FALLBACK_PROFILE.focusAreas,
+    severityScale: severityScale.length
+      ? severityScale
+      : FALLBACK_PROFILE.severityScale,
+    tone: raw.tone || FALLBACK_PROFILE.tone,
+    bannedPhrases: stringList(raw.bannedPhrases),
+  };
+}
+
+/** Read the profiles file, reusing the parsed copy until it changes. */
+function load(): NonNullable<typeof cache> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(PROFILES_PATH).mtimeMs;
+  } catch {
+    mtimeMs = -1; // no file — built-in profile only
+  }
+  if (cache && cache.mtimeMs === mtimeMs) return cache;
+
+  const profiles = new Map<string, ReviewProfile>();
+  let defaultName = FALLBACK_PROFILE.name;
+
+  if (mtimeMs >= 0) {
+    try {
+      const file = JSON.parse(
+        readFileSync(PROFILES_PATH, "utf8"),
+      ) as ProfilesFile;
+      for (const [name, raw] of Object.entries(file.profiles ?? {})) {
+        profiles.set(name, toProfile(name, raw));
+      }
+      if (file.default && profiles.has(file.default)) {
+        defaultName = file.default;
+      }
+    } catch (e) {
+      console.error(`Error reading review profiles from ${PROFILES_PATH}:`, e);
+    }
+  }
+  if (!profiles.has(defaultName)) {
+    profiles.set(FALLBACK_PROFILE.name, FALLBACK_PROFILE);
+    defaultName = FALLBACK_PROFILE.name;
+  }
+
+  cache = { mtimeMs, profiles, defaultName };
+  return cache;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+export function listReviewProfiles(): {
+  default: string;
+  profiles: ReviewProfile[];
+} {
+  const { profiles, defaultName } = load();
+  return { default: defaultName, profiles: [...profiles.values()] };
+}
+
+/**
+ * The profile called `name`, or the default profile when `name` is
+ * omitted. Returns `null` for an unknown name.
+ */
+export function getReviewProfile(name?: string): ReviewProfile | null {
+  const { profiles, defaultName } = load();
+  return profiles.get(name ?? defaultName) ?? null;
+}
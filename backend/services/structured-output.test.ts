@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test";
+import type { LLMClient, LLMMessage } from "../llm";
+import {
+  StructuredOutputError,
+  arrayParser,
+  criticismShape,
+  criticismShapeFor,
+  extractJson,
+  generateStructured,
+  objectParser,
+} from "./structured-output";
+import { OTHER_CATEGORY } from "./review-profiles";
+
+/** A client that answers with `responses` in turn and records each call. */
+function fakeLLM(responses: string[]) {
+  const calls: LLMMessage[][] = [];
+  const llm: LLMClient = {
+    provider: "mock",
+    model: "test",
+    generate: async (_system, messages) => {
+      calls.push(messages);
+      return responses.shift() ?? "";
+    },
+  };
+  return { llm, calls };
+}
+
+const criticism = { quote: "a", criticism: "b" };
+
+describe("extractJson", () => {
+  test("prefers the contents of a code fence", () => {
+    expect(extractJson('Here you go: [1]\n```json\n{"ok": true}\n```')).toEqual(
+      { value: { ok: true } },
+    );
+  });
+
+  test("skips bracketed prose that isn't JSON", () => {
+    expect(extractJson('The word [sic] then ["x"] at the end.')).toEqual({
+      value: ["x"],
+    });
+  });
+
+  test("reports empty and JSON-free responses", () => {
+    expect(extractJson("  ")).toEqual({ error: "The response was empty." });
+    expect(extractJson("no json here")).toEqual({
+      error: "The response did not contain valid JSON.",
+    });
+  });
+});
+
+describe("arrayParser", () => {
+  const parse = arrayParser(criticismShape);
+
+  test("keeps the valid items and reports the rest", () => {
+    const result = parse(JSON.stringify([criticism, { quote: "" }, 3]));
+    expect(result.value).toEqual([criticism]);
+    expect(result.errors).toEqual([
+      "item[1].quote must not be empty.",
+      "item[1].criticism must be a string.",
+      "item[2] must be an object.",
+    ]);
+  });
+
+  test("unwraps an object holding a single array", () => {
+    expect(parse(JSON.stringify({ criticisms: [criticism] })).value).toEqual([
+      criticism,
+    ]);
+  });
+
+  test("accepts an empty array but not one with only invalid items", () => {
+    expect(parse("[]")).toEqual({ value: [], errors: [] });
+    expect(parse('[{"quote": 1}]').value).toBeNull();
+    expect(parse('{"quote": "a"}')).toEqual({
+      value: null,
+      errors: ["Expected a JSON array."],
+    });
+  });
+});
+
+describe("criticismShapeFor", () => {
+  const parse = objectParser(
+    criticismShapeFor({
+      focusAreas: ["Clarity"],
+      severityScale: ["minor", "major"],
+    }),
+  );
+
+  test("matches labels case-insensitively and defaults the category", () => {
+    expect(
+      parse(
+        JSON.stringify({
+          ...criticism,
+          category: "clarity",
+          severity: "MAJOR",
+        }),
+      ).value,
+    ).toEqual({ ...criticism, category: "Clarity", severity: "major" });
+    expect(
+      parse(JSON.stringify({ ...criticism, category: "?", severity: "minor" }))
+        .value,
+    ).toEqual({ ...criticism, category: OTHER_CATEGORY, severity: "minor" });
+  });
+
+  test("requires a severity from the scale", () => {
+    expect(parse(JSON.stringify(criticism))).toEqual({
+      value: null,
+      errors: ["response.severity must be one of: minor, major."],
+    });
+  });
+});
+
+describe("generateStructured", () => {
+  const messages: LLMMessage[] = [{ role: "user", content: "text" }];
+
+  test("returns the first usable response without retrying", async () => {
+    const { llm, calls } = fakeLLM([JSON.stringify([criticism])]);
+    const result = await generateStructured(
+      llm,
+      "system",
+      messages,
+      arrayParser(criticismShape),
+    );
+
+    expect(result).toEqual([criticism]);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("retries once with the previous answer and its errors", async () => {
+    const { llm, calls } = fakeLLM(["not json", JSON.stringify([criticism])]);
+    const result = await generateStructured(
+      llm,
+      "system",
+      messages,
+      arrayParser(criticismShape),
+    );
+
+    expect(result).toEqual([criticism]);
+    expect(calls).toHaveLength(2);
+    expect(calls[1]!.slice(0, 2)).toEqual([
+      ...messages,
+      { role: "assistant", content: "not json" },
+    ]);
+    expect(calls[1]![2]!.content).toContain(
+      "- The response did not contain valid JSON.",
+    );
+  });
+
+  test("throws when the retry fails too", async () => {
+    const { llm, calls } = fakeLLM(["nope", "[1]"]);
+    const result = generateStructured(
+      llm,
+      "system",
+      messages,
+      arrayParser(criticismShape),
+    );
+
+    await expect(result).rejects.toBeInstanceOf(StructuredOutputError);
+    await expect(result).rejects.toHaveProperty("errors", [
+      "item[0] must be an object.",
+    ]);
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Structured-output parsing for LLM JSON responses.
+ *
+ * Models wrap JSON in code fences, add prose around it, or return a few
+ * malformed items among good ones. This module:
+ *  - extracts the JSON payload from the surrounding text
+ *  - validates it against the expected shape, keeping the valid items
+ *    of an array and reporting the rest
+ *  - retries the model once, quoting the errors, when nothing usable
+ *    came back
+ *
+ * Usage:
+ * ```ts
+ * const criticisms = await generateStructured(
+ *   llmFor("criticize"),
+ *   SYSTEM_PROMPT,
+ *   [{ role: "user", content: chunk.text }],
+ *   arrayParser(criticismShape),
+ * );
+ * ```
+ */
+
+import type { LLMClient, LLMMessage } from "../llm";
+import type { CriticismResult } from "./criticism";
+import type { SuggestionResult } from "./suggest";
+import type { ChatResult } from "./agent";
+import type { ToolCall } from "./agent-tools";
+import { OTHER_CATEGORY, type ReviewProfile } from "./review-profiles";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/**
+ * Validates one value. Returns the normalized value (with errors for any
+ * parts that were dropped), or no value and at least one error. `path`
+ * prefixes error messages.
+ */
+export type Shape<T> = (
+  value: unknown,
+  path: string,
+) => { value?: T; errors: string[] };
+
+/**
+ * `value` is `null` when nothing usable was found; otherwise `errors`
+ * lists the parts that were dropped.
+ */
+export interface ParseResult<T> {
+  value: T | null;
+  errors: string[];
+}
+
+export type Parser<T> = (content: string) => ParseResult<T>;
+
+export interface StructuredOptions {
+  signal?: AbortSignal;
+}
+
+/** Both attempts failed to produce a usable payload. */
+export class StructuredOutputError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Model output could not be parsed: ${errors.join("; ")}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+// ─── JSON extraction ─────────────────────────────────────────────────
+
+/** The end index (inclusive) of the balanced `[…]` / `{…}` at `start`. */
+function matchingBracket(source: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "[" || ch === "{") {
+      depth++;
+    } else if (ch === "]" || ch === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find the JSON payload in a model response: the contents of the first
+ * code fence if there is one, then the first balanced array or object
+ * that parses.
+ */
+export function extractJson(
+  content: string,
+): { value: unknown } | { error: string } {
+  if (!content.trim()) return { error: "The response was empty." };
+
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(content);
+  const source = fenced ? fenced[1]! : content;
+
+  for (let start = 0; start < source.length; start++) {
+    const ch = source[start];
+    if (ch !== "[" && ch !== "{") continue;
+
+    const end = matchingBracket(source, start);
+    if (end < 0) continue;
+    try {
+      return { value: JSON.parse(source.slice(start, end + 1)) };
+    } catch {
+      // Not JSON (e.g. "[sic]" in prose) — keep looking
+    }
+  }
+  return { error: "The response did not contain valid JSON." };
+}
+
+// ─── Field helpers ───────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireString(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: string[],
+  { allowEmpty = true } = {},
+): string {
+  const value = obj[key];
+  if (typeof value !== "string") {
+    errors.push(`${path}.${key} must be a string.`);
+    return "";
+  }
+  if (!allowEmpty && !value.trim()) {
+    errors.push(`${path}.${key} must not be empty.`);
+  }
+  return value;
+}
+
+/** Validate every item, keeping the valid ones. */
+function validateItems<T>(
+  items: unknown[],
+  shape: Shape<T>,
+  path: string,
+  errors: string[],
+): T[] {
+  const valid: T[] = [];
+  items.forEach((item, i) => {
+    const result = shape(item, `${path}[${i}]`);
+    if (result.value !== undefined) valid.push(result.value);
+    errors.push(...result.errors);
+  });
+  return valid;
+}
+
+// ─── Shapes ──────────────────────────────────────────────────────────
+
+export const criticismShape: Shape<CriticismResult> = (value, path) => {
+  if (!isRecord(value)) return { errors: [`${path} must be an object.`] };
+  const errors: string[] = [];
+  const quote = requireString(value, "quote", path, errors, {
+    allowEmpty: false,
+  });
+  const criticism = requireString(value, "criticism", path, errors, {
+    allowEmpty: false,
+  });
+  return errors.length ? { errors } : { value: { quote, criticism }, errors };
+};
+
+/** Case-insensitive lookup of `value` in `labels`, returning the label. */
+function matchLabel(value: unknown, labels: string[]): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const wanted = value.trim().toLowerCase();
+  return labels.find((label) => label.toLowerCase() === wanted);
+}
+
+/**
+ * A criticism with a `severity` from the profile's scale (required) and a
+ * `category` from its focus areas (unknown categories become "Other").
+ */
+export function criticismShapeFor(
+  profile: Pick<ReviewProfile, "focusAreas" | "severityScale">,
+): Shape<CriticismResult> {
+  return (value, path) => {
+    const base = criticismShape(value, path);
+    if (!base.value) return base;
+
+    const raw = value as Record<string, unknown>;
+    const severity = matchLabel(raw.severity, profile.severityScale);
+    if (!severity) {
+      return {
+        errors: [
+          `${path}.severity must be one of: ${profile.severityScale.join(", ")}.`,
+        ],
+      };
+    }
+    const category =
+      matchLabel(raw.category, profile.focusAreas) ?? OTHER_CATEGORY;
+    return { value: { ...base.value, category, severity }, errors: [] };
+  };
+}
+
+export const suggestionShape: Shape<SuggestionResult> = (value, path) => {
+  if (!isRecord(value)) return { errors: [`${path} must be an object.`] };
+  const errors: string[] = [];
+  const quote = requireString(value, "quote", path, errors, {
+    allowEmpty: false,
+  });
+  // An empty suggestion is a deletion.
+  const suggestion = requireString(value, "suggestion", path, errors);
+  const reason = requireString(value, "reason", path, errors);
+  return errors.length
+    ? { errors }
+    : { value: { quote, suggestion, reason }, errors };
+};
+
+export const CHAT_ACTIONS: ChatResult["action"][] = [
+  "reply",
+  "criticize",
+  "suggest",
+  "edit",
+  "summarize",
+];
+
+/**
+ * The action must be valid; the optional arrays keep their valid items
+ * and report the rest without rejecting the whole result.
+ */
+export const chatResultShape: Shape<ChatResult> = (value, path) => {
+  if (!isRecord(value)) return { errors: [`${path} must be an object.`] };
+
+  const action = value.action as ChatResult["action"];
+  if (!CHAT_ACTIONS.includes(action)) {
+    return {
+      errors: [`${path}.action must be one of: ${CHAT_ACTIONS.join(", ")}.`],
+    };
+  }
+
+  const errors: string[] = [];
+  const result: ChatResult = { action };
+
+  if (value.replyText != null) {
+    result.replyText = requireString(value, "replyText", path, errors);
+  }
+  for (const key of ["criticisms", "suggestions", "edits"] as const) {
+    const items = value[key];
+    if (items == null) continue;
+    if (!Array.isArray(items)) {
+      errors.push(`${path}.${key} must be an array.`);
+      continue;
+    }
+    if (key === "criticisms") {
+      result.criticisms = validateItems(
+        items,
+        criticismShape,
+        `${path}.${key}`,
+        errors,
+      );
+    } else {
+      result[key] = validateItems(
+        items,
+        suggestionShape,
+        `${path}.${key}`,
+        errors,
+      );
+    }
+  }
+
+  return { value: result, errors };
+};
+
+/**
+ * One step of the chat agent: either a `{ "tool", "args" }` call to one
+ * of `toolNames`, or the final chat result.
+ */
+export function agentStepShape(
+  toolNames: string[],
+): Shape<ToolCall | ChatResult> {
+  return (value, path) => {
+    if (!isRecord(value) || !("tool" in value)) {
+      return chatResultShape(value, path);
+    }
+    if (typeof value.tool !== "string" || !toolNames.includes(value.tool)) {
+      return {
+        errors: [`${path}.tool must be one of: ${toolNames.join(", ")}.`],
+      };
+    }
+    const args = value.args ?? {};
+    if (!isRecord(args)) return { errors: [`${path}.args must be an object.`] };
+    return { value: { tool: value.tool, args }, errors: [] };
+  };
+}
+
+// ─── Parsers ─────────────────────────────────────────────────────────
+
+/**
+ * Parse a JSON array of `shape` items. An object wrapping a single array
+ * (e.g. `{ "criticisms": [...] }`) is unwrapped. The result is unusable
+ * only when there were items and none of them validated.
+ */
+export function arrayParser<T>(shape: Shape<T>): Parser<T[]> {
+  return (content) => {
+    const extracted = extractJson(content);
+    if ("error" in extracted) return { value: null, errors: [extracted.error] };
+
+    let payload = extracted.value;
+    if (isRecord(payload)) {
+      const arrays = Object.values(payload).filter(Array.isArray);
+      if (arrays.length === 1) payload = arrays[0];
+    }
+    if (!Array.isArray(payload)) {
+      return { value: null, errors: ["Expected a JSON array."] };
+    }
+
+    const errors: string[] = [];
+    const items = validateItems(payload, shape, "item", errors);
+    if (payload.length > 0 && items.length === 0) {
+      return { value: null, errors };
+    }
+    return { value: items, errors };
+  };
+}
+
+/** Parse a single JSON object of the given shape. */
+export function objectParser<T>(shape: Shape<T>): Parser<T> {
+  return (content) => {
+    const extracted = extractJson(content);
+    if ("error" in extracted) return { value: null, errors: [extracted.error] };
+
+    const result = shape(extracted.value, "response");
+    return { value: result.value ?? null, errors: result.errors };
+  };
+}
+
+// ─── Generation ──────────────────────────────────────────────────────
+
+/**
+ * Generate and parse a structured response. When the first response
+ * yields nothing usable, the model is asked once more with its previous
+ * answer and the validation errors.
+ *
+ * @throws {StructuredOutputError} if the retry fails too.
+ */
+export async function generateStructured<T>(
+  llm: LLMClient,
+  system: string,
+  messages: LLMMessage[],
+  parse: Parser<T>,
+  options: StructuredOptions = {},
+): Promise<T> {
+  const first = await llm.generate(system, messages, options);
+  let result = parse(first);
+
+  if (result.value === null) {
+    const retry = await llm.generate(
+      system,
+      [
+        ...messages,
+        { role: "assistant", content: first },
+        {
+          role: "user",
+          content: `Your previous response could not be used:\n- ${result.errors.join("\n- ")}\n\nReply again with ONLY the corrected JSON, no other text.`,
+        },
+      ],
+      { signal: options.signal },
+    );
+    result = parse(retry);
+  }
+
+  if (result.value === null) throw new StructuredOutputError(result.errors);
+
+  if (result.errors.length > 0) {
+    console.error(
+      `Dropped invalid parts of model output: ${result.errors.join("; ")}`,
+    );
+  }
+  return result.value;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { setProvider } from "../llm";
+import { MockProvider } from "../llm/mock";
+import type { ChunkProgress } from "./progress";
+import { suggestChangesDocument, type SuggestionResult } from "./suggest";
+
+process.env.LLM_PROVIDER = "mock";
+
+const text = "Their going to the meeting tomorow at noon.";
+
+/** Route the suggest task to a mock answering with `items`. */
+function answer(items: unknown[]) {
+  const mock = new MockProvider(() => JSON.stringify(items));
+  setProvider(mock);
+  return mock;
+}
+
+describe("suggestChangesDocument", () => {
+  test("anchors suggestions and reports each chunk", async () => {
+    const mock = answer([
+      { quote: "Their going", suggestion: "They're going", reason: "Grammar" },
+      { quote: "at midnight", suggestion: "at 00:00", reason: "Clarity" },
+    ]);
+    const chunks: ChunkProgress<SuggestionResult>[] = [];
+
+    const result = await suggestChangesDocument(text, {
+      onChunk: (progress) => chunks.push(progress),
+    });
+
+    expect(result).toEqual({
+      suggestions: [
+        {
+          quote: "Their going",
+          suggestion: "They're going",
+          reason: "Grammar",
+          start: 0,
+          end: 11,
+          match: "exact",
+        },
+        {
+          quote: "at midnight",
+          suggestion: "at 00:00",
+          reason: "Clarity",
+          match: "unlocated",
+        },
+      ],
+      conflicts: [],
+    });
+    expect(chunks).toEqual([
+      { index: 0, total: 1, results: expect.any(Array) },
+    ]);
+    expect(mock.calls[0]!.messages).toEqual([{ role: "user", content: text }]);
+  });
+
+  test("reports overlapping suggestions that disagree", async () => {
+    answer([
+      { quote: "Their going", suggestion: "They are going", reason: "" },
+      { quote: "going to", suggestion: "heading to", reason: "" },
+    ]);
+
+    const { suggestions, conflicts } = await suggestChangesDocument(text);
+    expect(suggestions).toEqual([]);
+    expect(conflicts).toEqual([expect.objectContaining({ start: 0, end: 14 })]);
+    expect(conflicts[0]!.suggestions.map((s) => s.suggestion)).toEqual([
+      "They are going",
+      "heading to",
+    ]);
+  });
+
+  test("returns nothing when the model has no suggestions", async () => {
+    setProvider(new MockProvider());
+    expect(await suggestChangesDocument(text)).toEqual({
+      suggestions: [],
+      conflicts: [],
+    });
+  });
+});
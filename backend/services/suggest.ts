@@ -1,12 +1,23 @@
-import Agent from "solo-ai-sdk";
+import { llmFor, LLMError, LLMQuotaError } from "../llm";
+import { mapConcurrent } from "../llm/executor";
 import { chunkText } from "./chunker";
+import { anchorResults, chunkWindow, type Anchored } from "./anchor";
+import type { ProgressOptions } from "./progress";
+import { mergeSuggestions, type MergedSuggestions } from "./review-merge";
+import {
+  arrayParser,
+  generateStructured,
+  suggestionShape,
+} from "./structured-output";
 
-export interface SuggestionResult {
+export interface SuggestionResult extends Anchored {
   quote: string;
   suggestion: string;
   reason: string;
 }
 
+const CHUNK_OPTIONS = { maxChunkSize: 1500, overlap: 200 };
+
 const SYSTEM_PROMPT = `
 You are an expert document reviewer, copy editor, and writing assistant. 
 Your task is to review the provided document chunk and suggest concrete, textual changes to improve grammar, flow, clarity, and phrasing, while maintaining the original writing style.
@@ -19,36 +30,57 @@ Return ONLY the JSON array. If there are no improvements needed, return an empty
 Be careful that your "quote" exactly matches the characters in the text, so it can be automatically replaced.
 `;
 
+/**
+ * Every result is anchored to document offsets (see `./anchor`).
+ * Suggestions from overlapping chunks are reconciled, and incompatible
+ * ones are returned as `conflicts` (see `./review-merge`).
+ *
+ * `onChunk` reports each chunk's raw results, before reconciliation.
+ *
+ * @param options  `onChunk` receives each chunk's suggestions as soon as
+ *                 they're ready, in chunk order; `signal` aborts the run.
+ */
 export async function suggestChangesDocument(
   text: string,
-): Promise<SuggestionResult[]> {
+  options: ProgressOptions<SuggestionResult> = {},
+): Promise<MergedSuggestions> {
   // Use a sliding window to chunk the document
-  const chunks = await chunkText(text, { maxChunkSize: 1500, overlap: 200 });
-  const agent = new Agent("gemini"); // Assuming gemini provider by default
-
-  const allSuggestions: SuggestionResult[] = [];
-
-  for (const chunk of chunks) {
-    try {
-      const response = await agent.generate(
-        SYSTEM_PROMPT,
-        [{ role: "user", content: chunk.text }],
-        { model: "gemini-3-flash-preview" },
-      );
+  const chunks = await chunkText(text, CHUNK_OPTIONS);
+  const llm = llmFor("suggest");
 
-      const content = response.content as string;
-      const jsonStr = content
-        .replace(/^```json/, "")
-        .replace(/```$/, "")
-        .trim();
-      if (jsonStr) {
-        const suggestions: SuggestionResult[] = JSON.parse(jsonStr);
-        allSuggestions.push(...suggestions);
+  // Chunks are reviewed in parallel; results keep document order.
+  const perChunk = await mapConcurrent(
+    chunks,
+    async (chunk) => {
+      try {
+        const parsed = await generateStructured(
+          llm,
+          SYSTEM_PROMPT,
+          [{ role: "user", content: chunk.text }],
+          arrayParser(suggestionShape),
+          { signal: options.signal },
+        );
+        return anchorResults(
+          text,
+          parsed,
+          chunkWindow(chunk, CHUNK_OPTIONS.overlap, text.length),
+        );
+      } catch (e) {
+        if (e instanceof LLMQuotaError || e instanceof LLMError) throw e;
+        console.error("Error suggesting changes for chunk:", e);
+        return [];
       }
-    } catch (e) {
-      console.error("Error suggesting changes for chunk:", e);
-    }
-  }
+    },
+    {
+      signal: options.signal,
+      onResult: (suggestions, index) =>
+        options.onChunk?.({
+          index,
+          total: chunks.length,
+          results: suggestions,
+        }),
+    },
+  );
 
-  return allSuggestions;
+  return mergeSuggestions(perChunk.flat());
 }
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { LLMError, setProvider } from "../llm";
+import { MockProvider } from "../llm/mock";
+import type { HierarchyMap } from "./hierarchy-extractor";
+import { summarizeDocument } from "./summarize";
+
+process.env.LLM_PROVIDER = "mock";
+
+let mock: MockProvider;
+
+beforeEach(() => {
+  mock = new MockProvider();
+  setProvider(mock);
+});
+
+/** `count` paragraphs of filler, each starting with its number. */
+const paragraphs = (count: number) =>
+  Array.from(
+    { length: count },
+    (_, i) => `Paragraph ${i + 1}. ${"Some filler text. ".repeat(50)}`,
+  ).join("\n\n");
+
+describe("summarizeDocument", () => {
+  test("summarizes a short document in one streamed call", async () => {
+    const tokens: string[] = [];
+    const summary = await summarizeDocument("Short text. Nothing else.", {
+      format: "bullets",
+      audience: "new engineers",
+      onToken: (token) => tokens.push(token),
+    });
+
+    expect(summary).toBe("Mock summary (25 characters): Short text.");
+    expect(tokens.join("")).toBe(summary);
+    expect(mock.calls).toHaveLength(1);
+    expect(mock.calls[0]!.system).toContain("single flat markdown bullet list");
+    expect(mock.calls[0]!.system).toContain("audience: new engineers");
+  });
+
+  test("maps long documents chunk by chunk, then reduces", async () => {
+    const text = paragraphs(30);
+    const totals: number[] = [];
+    await summarizeDocument(text, {
+      onChunk: ({ total, results }) => {
+        totals.push(total);
+        expect(results).toHaveLength(1);
+      },
+    });
+
+    expect(totals.length).toBeGreaterThan(1);
+    expect(mock.calls).toHaveLength(totals.length + 1);
+    const reduce = mock.calls.at(-1)!.messages[0]!.content;
+    expect(reduce).toStartWith("--- Chunk 1 Summary ---\nMock summary");
+  });
+
+  test("maps one segment per top-level section", async () => {
+    const intro = paragraphs(6);
+    const body = paragraphs(6);
+    const text = `${intro}\n\n${body}`;
+    const hierarchy: HierarchyMap = {
+      headings: [],
+      outline: "",
+      documentSummary: "",
+      strategy: "heading",
+      sectionSummaries: [
+        {
+          title: "Intro",
+          summary: "",
+          startOffset: 0,
+          endOffset: intro.length,
+        },
+        {
+          title: "Body",
+          summary: "",
+          startOffset: intro.length,
+          endOffset: text.length,
+        },
+      ],
+    };
+
+    await summarizeDocument(text, { hierarchy, format: "per-section" });
+    expect(
+      mock.calls.map((c) => c.messages[0]!.content.split("\n")[0]),
+    ).toEqual(["SECTION: Intro", "SECTION: Body", "--- Section: Intro ---"]);
+  });
+
+  test("skips the model for empty text", async () => {
+    expect(await summarizeDocument("  \n")).toBe("");
+    expect(mock.calls).toEqual([]);
+  });
+
+  test("fails when the model does", async () => {
+    setProvider(
+      new MockProvider(() => {
+        throw new Error("offline");
+      }),
+    );
+    const error = console.error;
+    console.error = () => {};
+    try {
+      await expect(summarizeDocument("Short text.")).rejects.toThrow(
+        "Failed to summarize document",
+      );
+    } finally {
+      console.error = error;
+    }
+  });
+
+  test("passes provider errors through unchanged", async () => {
+    const failure = new LLMError("Invalid API key.", "mock", 401);
+    setProvider(
+      new MockProvider(() => {
+        throw failure;
+      }),
+    );
+    await expect(summarizeDocument(paragraphs(30))).rejects.toBe(failure);
+    await expect(summarizeDocument("Short text.")).rejects.toBe(failure);
+  });
+});
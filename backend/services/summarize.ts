@@ -1,18 +1,63 @@
-import Agent from "solo-ai-sdk";
+import { llmFor, LLMError, LLMQuotaError } from "../llm";
+import { mapConcurrent } from "../llm/executor";
 import { chunkText } from "./chunker";
+import type { HierarchyMap } from "./hierarchy-extractor";
+import type { ProgressOptions } from "./progress";
+
+export const SUMMARY_LENGTHS = ["short", "medium", "long"] as const;
+export const SUMMARY_FORMATS = ["executive", "bullets", "per-section"] as const;
+
+export type SummaryLength = (typeof SUMMARY_LENGTHS)[number];
+export type SummaryFormat = (typeof SUMMARY_FORMATS)[number];
+
+export interface SummarizeOptions {
+  /** Target size of the final summary (default "medium"). */
+  length?: SummaryLength;
+  /** Who the summary is for, e.g. "executives" or "new engineers". */
+  audience?: string;
+  /** Layout of the final summary (default "executive"). */
+  format?: SummaryFormat;
+  /**
+   * Document hierarchy. When given, the map phase runs once per
+   * top-level section instead of per fixed-size chunk.
+   */
+  hierarchy?: HierarchyMap;
+}
+
+/** A piece of the document summarized on its own in the map phase. */
+interface MapSegment {
+  title?: string;
+  text: string;
+}
+
+/** Largest piece sent to the model in one map (or single-pass) call. */
+const MAP_CHUNK_SIZE = 10000;
+const MAP_CHUNK_OVERLAP = 400;
+
+/**
+ * Whether `text` is long enough to be split into map segments; shorter
+ * text is summarized in one pass and never looks at the hierarchy.
+ */
+export function usesMapPhase(text: string): boolean {
+  return text.length > MAP_CHUNK_SIZE;
+}
 
 const MAP_PROMPT = `
-You are an expert document summarizer. 
+You are an expert document summarizer.
 Please summarize the following document chunk concisely.
+The chunk may start with the title of the section it comes from.
 Extract the most important information, key points, and core arguments.
 Return a structured but concise summary. Do not output anything else.
 `;
 
-const REDUCE_PROMPT = `
-You are an expert document summarizer.
-Your task is to synthesize the provided text into a single, cohesive, and comprehensive final summary of the entire document.
+const LENGTH_GUIDANCE: Record<SummaryLength, string> = {
+  short: "Keep the whole summary under about 120 words.",
+  medium: "Aim for roughly 250-400 words in total.",
+  long: "Be thorough: up to about 800 words in total.",
+};
 
-Please format your response EXACTLY following this structure:
+const FORMAT_INSTRUCTIONS: Record<SummaryFormat, string> = {
+  executive: `Please format your response EXACTLY following this structure:
 
 ### Executive Summary
 [A brief 2-3 sentence overview describing what the document is about]
@@ -24,67 +69,167 @@ Please format your response EXACTLY following this structure:
 (Include up to 5 main themes/highlights as bullet points)
 
 ### Detailed Breakdown
-[A few paragraphs synthesizing the specific details, flow, and narrative of the document]
+[A few paragraphs synthesizing the specific details, flow, and narrative of the document]`,
+
+  bullets: `Format your response as a single flat markdown bullet list ("- " per line) of the document's key points, most important first. No headings and no introduction.`,
+
+  "per-section": `Format your response as one "### [Section title]" heading per section of the document, in document order, each followed by a short paragraph summarizing that section. Use the section titles given in the input when there are any.`,
+};
+
+function buildReducePrompt(options: SummarizeOptions): string {
+  const audience = options.audience?.trim();
+  return `
+You are an expert document summarizer.
+Your task is to synthesize the provided text into a single, cohesive, and comprehensive final summary of the entire document.
+${audience ? `\nThe summary is for this audience: ${audience}. Choose vocabulary, level of detail and emphasis that suit them.\n` : ""}
+${FORMAT_INSTRUCTIONS[options.format ?? "executive"]}
+
+${LENGTH_GUIDANCE[options.length ?? "medium"]}
 
 Provide ONLY the final summary text following this format, nothing else.
 `;
+}
 
-export async function summarizeDocument(text: string): Promise<string> {
-  const chunks = await chunkText(text, { maxChunkSize: 10000, overlap: 400 });
-  const agent = new Agent("gemini");
+/**
+ * Split the document into map-phase segments: one per top-level section
+ * of the hierarchy (plus any preamble before the first heading), falling
+ * back to fixed-size chunks. Sections too large for one call are split
+ * further and numbered.
+ */
+async function buildMapSegments(
+  text: string,
+  hierarchy?: HierarchyMap,
+): Promise<MapSegment[]> {
+  const sections = hierarchy?.sectionSummaries ?? [];
+  if (sections.length === 0) {
+    const chunks = await chunkText(text, {
+      maxChunkSize: MAP_CHUNK_SIZE,
+      overlap: MAP_CHUNK_OVERLAP,
+    });
+    return chunks.map((c) => ({ text: c.text }));
+  }
 
-  if (chunks.length === 0) {
+  const ranges: Array<{ title?: string; start: number; end: number }> = [];
+  if (sections[0]!.startOffset > 0) {
+    ranges.push({ start: 0, end: sections[0]!.startOffset });
+  }
+  for (const s of sections) {
+    ranges.push({ title: s.title, start: s.startOffset, end: s.endOffset });
+  }
+
+  const segments: MapSegment[] = [];
+  for (const range of ranges) {
+    const sectionText = text.slice(range.start, range.end);
+    if (sectionText.trim().length === 0) continue;
+
+    if (sectionText.length <= MAP_CHUNK_SIZE) {
+      segments.push({ title: range.title, text: sectionText });
+      continue;
+    }
+
+    const parts = await chunkText(sectionText, {
+      maxChunkSize: MAP_CHUNK_SIZE,
+      overlap: MAP_CHUNK_OVERLAP,
+    });
+    for (const part of parts) {
+      segments.push({
+        title: range.title && `${range.title} (part ${part.index + 1})`,
+        text: part.text,
+      });
+    }
+  }
+  return segments;
+}
+
+/**
+ * @param options  `onChunk` receives each map-phase summary, `onToken`
+ *                 the final summary text as it's generated. `signal`
+ *                 aborts the run.
+ */
+export async function summarizeDocument(
+  text: string,
+  options: SummarizeOptions & ProgressOptions<string> = {},
+): Promise<string> {
+  const llm = llmFor("summarize");
+  const reducePrompt = buildReducePrompt(options);
+
+  if (text.trim().length === 0) {
     return "";
   }
 
-  if (chunks.length === 1) {
+  // Short documents are summarized in a single pass.
+  if (!usesMapPhase(text)) {
     try {
-      const response = await agent.generate(
-        REDUCE_PROMPT,
-        [{ role: "user", content: chunks[0]!.text }],
-        { model: "gemini-3-flash-preview" },
+      const summary = await llm.generate(
+        reducePrompt,
+        [{ role: "user", content: text }],
+        { signal: options.signal, onToken: options.onToken },
       );
-      return (response.content as string).trim();
+      return summary.trim();
     } catch (e) {
+      if (e instanceof LLMQuotaError || e instanceof LLMError) throw e;
       console.error("Error summarizing chunk:", e);
       throw new Error("Failed to summarize document");
     }
   }
 
-  const chunkSummaries: string[] = [];
-
-  for (const chunk of chunks) {
-    try {
-      const response = await agent.generate(
-        MAP_PROMPT,
-        [{ role: "user", content: chunk.text }],
-        { model: "gemini-3-flash-preview" },
-      );
-      const summary = (response.content as string).trim();
-      if (summary) {
-        chunkSummaries.push(summary);
+  const segments = await buildMapSegments(text, options.hierarchy);
+  // Segments are summarized in parallel; summaries keep document order.
+  const mapped = await mapConcurrent(
+    segments,
+    async (segment) => {
+      const content = segment.title
+        ? `SECTION: ${segment.title}\n---\n${segment.text}`
+        : segment.text;
+      try {
+        const summary = await llm.generate(
+          MAP_PROMPT,
+          [{ role: "user", content }],
+          { signal: options.signal },
+        );
+        return summary.trim();
+      } catch (e) {
+        if (e instanceof LLMQuotaError || e instanceof LLMError) throw e;
+        console.error("Error summarizing chunk map phase:", e);
+        return "";
       }
-    } catch (e) {
-      console.error("Error summarizing chunk map phase:", e);
-    }
-  }
+    },
+    {
+      signal: options.signal,
+      onResult: (summary, index) =>
+        options.onChunk?.({
+          index,
+          total: segments.length,
+          results: summary ? [summary] : [],
+        }),
+    },
+  );
+
+  const chunkSummaries = mapped.flatMap((summary, index) => {
+    if (!summary) return [];
+    const title = segments[index]!.title;
+    return title
+      ? [`--- Section: ${title} ---\n${summary}`]
+      : [`--- Chunk ${index + 1} Summary ---\n${summary}`];
+  });
 
   if (chunkSummaries.length === 0) {
     throw new Error("Failed to generate any chunk summaries");
   }
 
-  const combinedSummariesText = chunkSummaries
-    .map((s, i) => `--- Chunk ${i + 1} Summary ---\n${s}`)
-    .join("\n\n");
+  const combinedSummariesText = chunkSummaries.join("\n\n");
+
+  options.signal?.throwIfAborted();
 
   try {
-    const finalResponse = await agent.generate(
-      REDUCE_PROMPT,
+    const summary = await llm.generate(
+      reducePrompt,
       [{ role: "user", content: combinedSummariesText }],
-      { model: "gemini-3-flash-preview" },
+      { signal: options.signal, onToken: options.onToken },
     );
-    return (finalResponse.content as string).trim();
+    return summary.trim();
   } catch (e) {
+    if (e instanceof LLMQuotaError || e instanceof LLMError) throw e;
     console.error("Error generating final summary reduce phase:", e);
     throw new Error("Failed to generate final summary");
   }
@@ -0,0 +1,259 @@
+/**
+ * Minimal ZIP archive reader / writer.
+ *
+ * OOXML files (.docx) are plain ZIP containers, so this is all we need
+ * to get at `word/document.xml` and friends without pulling in a
+ * dependency. Only the features Office actually produces are supported:
+ * stored (0) and deflated (8) entries, located via the central directory.
+ *
+ * Uploads are untrusted, so reading is capped: no entry may inflate past
+ * the size its header declares, and all entries together past
+ * `maxTotalSize`. A small "zip bomb" fails fast instead of exhausting
+ * memory.
+ *
+ * Usage:
+ * ```ts
+ * const entries = readZip(new Uint8Array(await file.arrayBuffer()));
+ * const xml = new TextDecoder().decode(entries.get("word/document.xml"));
+ *
+ * const bytes = writeZip([{ name: "word/document.xml", data: xml }]);
+ * ```
+ */
+
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** EOCD is 22 bytes plus an optional comment of up to 64 KiB. */
+const EOCD_MAX_SEARCH = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** Default cap on all entries' uncompressed bytes together (256 MiB). */
+const DEFAULT_MAX_TOTAL_SIZE = 256 * 1024 * 1024;
+
+/** MS-DOS date for 1980-01-01; entry timestamps carry no meaning here. */
+const DOS_DATE_1980 = (1 << 5) | 1; // year offset 0, month 1, day 1
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface ZipEntry {
+  /** Path inside the archive, using `/` separators. */
+  name: string;
+  /** File contents; strings are encoded as UTF-8. */
+  data: Uint8Array | string;
+}
+
+export interface ReadZipOptions {
+  /** Most uncompressed bytes to read across all entries (default 256 MiB). */
+  maxTotalSize?: number;
+}
+
+// ─── Reader ──────────────────────────────────────────────────────────
+
+/**
+ * Read every file entry of a ZIP archive into memory.
+ *
+ * @returns A map of entry path → uncompressed bytes. Directory entries
+ *          are skipped.
+ * @throws  If the buffer is not a ZIP archive, uses an unsupported
+ *          compression method, or inflates past its declared sizes or
+ *          `maxTotalSize`.
+ */
+export function readZip(
+  bytes: Uint8Array,
+  options: ReadZipOptions = {},
+): Map<string, Uint8Array> {
+  const maxTotalSize = options.maxTotalSize ?? DEFAULT_MAX_TOTAL_SIZE;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let cursor = view.getUint32(eocd + 16, true);
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      cursor + 46 > bytes.length ||
+      view.getUint32(cursor, true) !== CENTRAL_SIGNATURE
+    ) {
+      throw new Error("Invalid ZIP: corrupt central directory.");
+    }
+
+    const method = view.getUint16(cursor + 10, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const uncompressedSize = view.getUint32(cursor + 24, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(cursor + 46, cursor + 46 + nameLength),
+    );
+
+    cursor += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+
+    // The local header repeats name/extra with possibly different lengths,
+    // so the data offset must be computed from the local header itself.
+    if (
+      localOffset + 30 > bytes.length ||
+      view.getUint32(localOffset, true) !== LOCAL_SIGNATURE
+    ) {
+      throw new Error(`Invalid ZIP: missing local header for "${name}".`);
+    }
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    if (dataStart + compressedSize > bytes.length) {
+      throw new Error(`Invalid ZIP: "${name}" is truncated.`);
+    }
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    totalSize += uncompressedSize;
+    if (totalSize > maxTotalSize) {
+      throw new Error(
+        `ZIP contents exceed the ${maxTotalSize}-byte uncompressed limit.`,
+      );
+    }
+
+    let content: Uint8Array;
+    if (method === METHOD_STORED) {
+      content = data;
+    } else if (method === METHOD_DEFLATE) {
+      // Inflating stops at the declared size, so a lying header can't
+      // make us allocate more than the total limit allows.
+      try {
+        content = new Uint8Array(
+          inflateRawSync(data, {
+            maxOutputLength: Math.max(1, uncompressedSize),
+          }),
+        );
+      } catch {
+        throw new Error(`Invalid ZIP: "${name}" does not inflate to its size.`);
+      }
+    } else {
+      throw new Error(
+        `Unsupported ZIP compression method ${method} for "${name}".`,
+      );
+    }
+    if (content.byteLength !== uncompressedSize) {
+      throw new Error(`Invalid ZIP: "${name}" does not match its size.`);
+    }
+    entries.set(name, content);
+  }
+
+  return entries;
+}
+
+// ─── Writer ──────────────────────────────────────────────────────────
+
+/**
+ * Build a ZIP archive with every entry deflated.
+ *
+ * Entries are written in the given order, which matters for OOXML:
+ * `[Content_Types].xml` should come first.
+ */
+export function writeZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const raw =
+      typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const compressed = new Uint8Array(deflateRawSync(raw));
+    const crc = crc32(raw);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_SIGNATURE, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, METHOD_DEFLATE, true);
+    local.setUint16(12, DOS_DATE_1980, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.byteLength, true);
+    local.setUint32(22, raw.byteLength, true);
+    local.setUint16(26, name.byteLength, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_SIGNATURE, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, METHOD_DEFLATE, true);
+    central.setUint16(14, DOS_DATE_1980, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, compressed.byteLength, true);
+    central.setUint32(24, raw.byteLength, true);
+    central.setUint16(28, name.byteLength, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, compressed);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.byteLength + compressed.byteLength;
+  }
+
+  const centralSize = centralParts.reduce((n, p) => n + p.byteLength, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, EOCD_SIGNATURE, true);
+  eocd.setUint16(8, entries.length, true);
+  eocd.setUint16(10, entries.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  return concat([...localParts, ...centralParts, new Uint8Array(eocd.buffer)]);
+}
+
+// ─── Internals ───────────────────────────────────────────────────────
+
+/** Scan backwards for the End Of Central Directory record. */
+function findEndOfCentralDirectory(view: DataView): number {
+  const min = Math.max(0, view.byteLength - EOCD_MAX_SEARCH);
+  for (let i = view.byteLength - 22; i >= min; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error("Invalid ZIP: end of central directory not found.");
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/** Standard CRC-32 (IEEE 802.3), as required by the ZIP format. */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
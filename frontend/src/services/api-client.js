@@ -0,0 +1,935 @@
+/**
+ * Typed client for the llm-docx backend (API 1.0.0).
+ *
+ * Generated by backend/scripts/generate-client.ts from the routes' specs
+ * (the same ones behind GET /openapi.json); the types are JSDoc, so
+ * editors and `tsc --checkJs` can check calls. Do not edit by hand; run
+ * `bun run generate:client` in backend/ instead.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/**
+ * @typedef {object} ListDocsResponseItem
+ * @property {string} id
+ * @property {string} title
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ */
+
+/** @typedef {ListDocsResponseItem[]} ListDocsResponse */
+
+/**
+ * @typedef {object} CreateDocBody
+ * @property {string} [title]
+ * @property {string} text
+ * @property {unknown} [structure] Structure map from `/docs/import`.
+ */
+
+/**
+ * @typedef {object} CreateDocResponse
+ * @property {string} id
+ * @property {string} title
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {string} text
+ * @property {unknown | null} structure
+ * @property {unknown | null} hierarchy Hierarchy extracted from the current text, or null if stale.
+ */
+
+/**
+ * @typedef {object} ImportDocxQuery
+ * @property {string} [filename]
+ * @property {boolean} [save] Also store the imported document.
+ */
+
+/**
+ * @typedef {object} ImportDocxResponse
+ * @property {string} title
+ * @property {string} text
+ * @property {unknown} structure
+ * @property {string} [id] Set when `save` stored the document.
+ */
+
+/**
+ * @typedef {object} ExportDocxBody
+ * @property {string} text
+ * @property {string} [title]
+ * @property {string} [author] Shown on comments and tracked changes (default "AI Reviewer").
+ * @property {object[]} [criticisms]
+ * @property {string} criticisms[].quote
+ * @property {string} criticisms[].criticism
+ * @property {string} [criticisms[].category]
+ * @property {string} [criticisms[].severity]
+ * @property {number} [criticisms[].start]
+ * @property {number} [criticisms[].end]
+ * @property {'exact' | 'fuzzy' | 'unlocated'} [criticisms[].match]
+ * @property {object[]} [suggestions]
+ * @property {string} suggestions[].quote
+ * @property {string} suggestions[].suggestion
+ * @property {string} suggestions[].reason
+ * @property {number} [suggestions[].start]
+ * @property {number} [suggestions[].end]
+ * @property {'exact' | 'fuzzy' | 'unlocated'} [suggestions[].match]
+ * @property {unknown} [structure] Structure map from `/docs/import`; only `headings` is used.
+ */
+
+/**
+ * @typedef {object} GetDocResponse
+ * @property {string} id
+ * @property {string} title
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {string} text
+ * @property {unknown | null} structure
+ * @property {unknown | null} hierarchy Hierarchy extracted from the current text, or null if stale.
+ */
+
+/**
+ * @typedef {object} UpdateDocBody
+ * @property {string} [title]
+ * @property {string} [text]
+ * @property {unknown} [structure] Structure map from `/docs/import`.
+ */
+
+/**
+ * @typedef {object} UpdateDocResponse
+ * @property {string} id
+ * @property {string} title
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {string} text
+ * @property {unknown | null} structure
+ * @property {unknown | null} hierarchy Hierarchy extracted from the current text, or null if stale.
+ */
+
+/**
+ * @typedef {object} AnalyzeChunkBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {object} [options]
+ * @property {number} [options.maxChunkSize]
+ * @property {number} [options.overlap]
+ * @property {number} [options.similarityThreshold]
+ * @property {number} [options.minSectionSize]
+ * @property {number} [options.docSummaryMaxSentences]
+ * @property {number} [options.sectionSummaryMaxSentences]
+ * @property {number} [options.maxOutlineDepth]
+ * @property {boolean} [useHierarchy]
+ * @property {unknown} [structure] Structure map from `/docs/import`.
+ */
+
+/**
+ * @typedef {object} AnalyzeChunkResponse
+ * @property {number} totalCharacters
+ * @property {number} totalWords
+ * @property {number} totalParagraphs
+ * @property {object[]} chunks
+ * @property {number} chunks[].index
+ * @property {string} chunks[].text
+ * @property {number} chunks[].start
+ * @property {number} chunks[].end
+ * @property {string} chunks[].hash
+ * @property {string} [chunks[].sectionTitle]
+ * @property {string} [chunks[].sectionPath]
+ * @property {string} [chunks[].contextPrefix]
+ * @property {object} [hierarchy] Set when `useHierarchy` is true.
+ * @property {object[]} hierarchy.headings
+ * @property {number} hierarchy.headings[].level
+ * @property {string} hierarchy.headings[].title
+ * @property {number} hierarchy.headings[].startOffset
+ * @property {number} hierarchy.headings[].endOffset
+ * @property {unknown[]} hierarchy.headings[].children Subheadings, each shaped like this one.
+ * @property {string} hierarchy.outline
+ * @property {string} hierarchy.documentSummary
+ * @property {object[]} hierarchy.sectionSummaries
+ * @property {string} hierarchy.sectionSummaries[].title
+ * @property {string} hierarchy.sectionSummaries[].summary
+ * @property {number} hierarchy.sectionSummaries[].startOffset
+ * @property {number} hierarchy.sectionSummaries[].endOffset
+ * @property {'heading' | 'embedding-similarity' | 'positional'} hierarchy.strategy
+ */
+
+/**
+ * @typedef {object} AnalyzeStatsBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ */
+
+/**
+ * @typedef {object} AnalyzeStatsResponse
+ * @property {number} totalCharacters
+ * @property {number} totalWords
+ * @property {number} totalParagraphs
+ */
+
+/**
+ * @typedef {object} QueryDocumentBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {string} question
+ * @property {object} [options]
+ * @property {number} [options.maxChunkSize]
+ * @property {number} [options.overlap]
+ * @property {number} [options.similarityThreshold]
+ * @property {number} [options.minSectionSize]
+ * @property {number} [options.docSummaryMaxSentences]
+ * @property {number} [options.sectionSummaryMaxSentences]
+ * @property {number} [options.maxOutlineDepth]
+ * @property {number} [options.limit]
+ * @property {'vector' | 'keyword' | 'hybrid'} [options.mode]
+ * @property {number} [options.minSimilarity] Drop results below this similarity: cosine for vector and hybrid search, score / (score + 2) of BM25 for keyword search.
+ * @property {object} [options.filter]
+ * @property {string} [options.filter.sectionPath]
+ * @property {string} [options.filter.sectionTitle]
+ * @property {object} [options.filter.range]
+ * @property {number} [options.filter.range.start]
+ * @property {number} [options.filter.range.end]
+ */
+
+/**
+ * @typedef {object} QueryDocumentResponse
+ * @property {object[]} results
+ * @property {object} results[].record
+ * @property {string} results[].record.text
+ * @property {string} results[].record.chunkHash
+ * @property {number} results[].record.chunkIndex
+ * @property {number} results[].record.start
+ * @property {number} results[].record.end
+ * @property {string} results[].record.sectionTitle
+ * @property {string} results[].record.sectionPath
+ * @property {string} results[].record.contextPrefix
+ * @property {number} results[].similarity
+ * @property {{ headings: { level: number; title: string; startOffset: number; endOffset: number; children: unknown[] }[]; outline: string; documentSummary: string; sectionSummaries: { title: string; summary: string; startOffset: number; endOffset: number }[]; strategy: 'heading' | 'embedding-similarity' | 'positional' } | null} hierarchy
+ */
+
+/**
+ * @typedef {object} AnalyzeHierarchyBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {object} [options]
+ * @property {number} [options.similarityThreshold]
+ * @property {number} [options.minSectionSize]
+ * @property {number} [options.docSummaryMaxSentences]
+ * @property {number} [options.sectionSummaryMaxSentences]
+ * @property {number} [options.maxOutlineDepth]
+ * @property {unknown} [structure] Structure map from `/docs/import`.
+ */
+
+/**
+ * @typedef {object} AnalyzeHierarchyResponse
+ * @property {object[]} headings
+ * @property {number} headings[].level
+ * @property {string} headings[].title
+ * @property {number} headings[].startOffset
+ * @property {number} headings[].endOffset
+ * @property {unknown[]} headings[].children Subheadings, each shaped like this one.
+ * @property {string} outline
+ * @property {string} documentSummary
+ * @property {object[]} sectionSummaries
+ * @property {string} sectionSummaries[].title
+ * @property {string} sectionSummaries[].summary
+ * @property {number} sectionSummaries[].startOffset
+ * @property {number} sectionSummaries[].endOffset
+ * @property {'heading' | 'embedding-similarity' | 'positional'} strategy
+ */
+
+/**
+ * @typedef {object} ListReviewProfilesResponse
+ * @property {string} default Name of the profile used when none is given.
+ * @property {object[]} profiles
+ * @property {string} profiles[].name
+ * @property {string} profiles[].description
+ * @property {string} profiles[].persona
+ * @property {string[]} profiles[].focusAreas
+ * @property {string[]} profiles[].severityScale Severity labels, least severe first.
+ * @property {string} profiles[].tone
+ * @property {string[]} profiles[].bannedPhrases
+ */
+
+/**
+ * @typedef {object} CriticizeDocumentBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {string} [profile] Review profile name (see `GET /analyze/profiles`).
+ */
+
+/**
+ * @typedef {object} CriticizeDocumentResponseItem
+ * @property {string} quote
+ * @property {string} criticism
+ * @property {string} [category]
+ * @property {string} [severity]
+ * @property {number} [start]
+ * @property {number} [end]
+ * @property {'exact' | 'fuzzy' | 'unlocated'} [match]
+ */
+
+/** @typedef {CriticizeDocumentResponseItem[]} CriticizeDocumentResponse */
+
+/**
+ * @typedef {object} SuggestChangesDocumentBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ */
+
+/**
+ * @typedef {object} SuggestChangesDocumentResponse
+ * @property {object[]} suggestions
+ * @property {string} suggestions[].quote
+ * @property {string} suggestions[].suggestion
+ * @property {string} suggestions[].reason
+ * @property {number} [suggestions[].start]
+ * @property {number} [suggestions[].end]
+ * @property {'exact' | 'fuzzy' | 'unlocated'} [suggestions[].match]
+ * @property {object[]} conflicts Overlapping suggestions that don't agree.
+ * @property {number} conflicts[].start
+ * @property {number} conflicts[].end
+ * @property {object[]} conflicts[].suggestions
+ * @property {string} conflicts[].suggestions[].quote
+ * @property {string} conflicts[].suggestions[].suggestion
+ * @property {string} conflicts[].suggestions[].reason
+ * @property {number} [conflicts[].suggestions[].start]
+ * @property {number} [conflicts[].suggestions[].end]
+ * @property {'exact' | 'fuzzy' | 'unlocated'} [conflicts[].suggestions[].match]
+ */
+
+/**
+ * @typedef {object} CriticizeDocumentStreamBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {string} [profile] Review profile name (see `GET /analyze/profiles`).
+ */
+
+/**
+ * @typedef {object} SuggestChangesDocumentStreamBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ */
+
+/**
+ * @typedef {object} SummarizeDocumentBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {object} [options]
+ * @property {'short' | 'medium' | 'long'} [options.length]
+ * @property {string} [options.audience]
+ * @property {'executive' | 'bullets' | 'per-section'} [options.format]
+ * @property {unknown} [structure] Structure map from `/docs/import`.
+ */
+
+/**
+ * @typedef {object} SummarizeDocumentResponse
+ * @property {string} summary
+ * @property {'executive' | 'bullets' | 'per-section'} format
+ * @property {'short' | 'medium' | 'long'} length
+ */
+
+/**
+ * @typedef {object} SummarizeDocumentStreamBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {object} [options]
+ * @property {'short' | 'medium' | 'long'} [options.length]
+ * @property {string} [options.audience]
+ * @property {'executive' | 'bullets' | 'per-section'} [options.format]
+ * @property {unknown} [structure] Structure map from `/docs/import`.
+ */
+
+/**
+ * @typedef {object} CriticizeDocumentJobBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {string} [profile] Review profile name (see `GET /analyze/profiles`).
+ */
+
+/**
+ * @typedef {object} CriticizeDocumentJobResponse
+ * @property {string} id
+ * @property {string} kind The analysis the job runs, e.g. `criticize`.
+ * @property {'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'} status
+ * @property {string | null} error Why the job failed or was cancelled.
+ * @property {string} createdAt
+ * @property {string | null} startedAt
+ * @property {string | null} finishedAt
+ * @property {object} progress
+ * @property {number} progress.completed Chunks finished so far.
+ * @property {number | null} progress.total Chunks in the run; null until the first one finishes.
+ * @property {object[]} progress.chunks Each finished chunk's results, in chunk order.
+ * @property {number} progress.chunks[].index
+ * @property {number} progress.chunks[].total
+ * @property {unknown[]} progress.chunks[].results
+ * @property {unknown | null} result What the analyze route would have returned, once succeeded.
+ */
+
+/**
+ * @typedef {object} SuggestChangesDocumentJobBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ */
+
+/**
+ * @typedef {object} SuggestChangesDocumentJobResponse
+ * @property {string} id
+ * @property {string} kind The analysis the job runs, e.g. `criticize`.
+ * @property {'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'} status
+ * @property {string | null} error Why the job failed or was cancelled.
+ * @property {string} createdAt
+ * @property {string | null} startedAt
+ * @property {string | null} finishedAt
+ * @property {object} progress
+ * @property {number} progress.completed Chunks finished so far.
+ * @property {number | null} progress.total Chunks in the run; null until the first one finishes.
+ * @property {object[]} progress.chunks Each finished chunk's results, in chunk order.
+ * @property {number} progress.chunks[].index
+ * @property {number} progress.chunks[].total
+ * @property {unknown[]} progress.chunks[].results
+ * @property {unknown | null} result What the analyze route would have returned, once succeeded.
+ */
+
+/**
+ * @typedef {object} SummarizeDocumentJobBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {object} [options]
+ * @property {'short' | 'medium' | 'long'} [options.length]
+ * @property {string} [options.audience]
+ * @property {'executive' | 'bullets' | 'per-section'} [options.format]
+ * @property {unknown} [structure] Structure map from `/docs/import`.
+ */
+
+/**
+ * @typedef {object} SummarizeDocumentJobResponse
+ * @property {string} id
+ * @property {string} kind The analysis the job runs, e.g. `criticize`.
+ * @property {'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'} status
+ * @property {string | null} error Why the job failed or was cancelled.
+ * @property {string} createdAt
+ * @property {string | null} startedAt
+ * @property {string | null} finishedAt
+ * @property {object} progress
+ * @property {number} progress.completed Chunks finished so far.
+ * @property {number | null} progress.total Chunks in the run; null until the first one finishes.
+ * @property {object[]} progress.chunks Each finished chunk's results, in chunk order.
+ * @property {number} progress.chunks[].index
+ * @property {number} progress.chunks[].total
+ * @property {unknown[]} progress.chunks[].results
+ * @property {unknown | null} result What the analyze route would have returned, once succeeded.
+ */
+
+/**
+ * @typedef {object} ApplySuggestionsBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {unknown[]} suggestions Accepted suggestions or chat edits: `{ quote, suggestion, start?, end? }`.
+ * @property {boolean} [allOrNothing] Apply nothing if any suggestion is rejected.
+ * @property {boolean} [save] With `docId`, save the new text to the stored document.
+ */
+
+/**
+ * @typedef {object} ApplySuggestionsResponse
+ * @property {string} text
+ * @property {unknown[]} applied
+ * @property {unknown[]} rejected Each with a `code` and a `reason`.
+ * @property {string} diff Unified diff of the change.
+ */
+
+/**
+ * @typedef {object} ChatDocumentBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {string} query
+ * @property {string} [mode]
+ * @property {string} [sessionId]
+ */
+
+/**
+ * @typedef {object} ChatDocumentResponse
+ * @property {'reply' | 'criticize' | 'suggest' | 'edit' | 'summarize'} action
+ * @property {string} [replyText]
+ * @property {object[]} [criticisms]
+ * @property {string} criticisms[].quote
+ * @property {string} criticisms[].criticism
+ * @property {string} [criticisms[].category]
+ * @property {string} [criticisms[].severity]
+ * @property {number} [criticisms[].start]
+ * @property {number} [criticisms[].end]
+ * @property {'exact' | 'fuzzy' | 'unlocated'} [criticisms[].match]
+ * @property {object[]} [suggestions]
+ * @property {string} suggestions[].quote
+ * @property {string} suggestions[].suggestion
+ * @property {string} suggestions[].reason
+ * @property {number} [suggestions[].start]
+ * @property {number} [suggestions[].end]
+ * @property {'exact' | 'fuzzy' | 'unlocated'} [suggestions[].match]
+ * @property {object[]} [edits]
+ * @property {string} edits[].quote
+ * @property {string} edits[].suggestion
+ * @property {string} edits[].reason
+ * @property {number} [edits[].start]
+ * @property {number} [edits[].end]
+ * @property {'exact' | 'fuzzy' | 'unlocated'} [edits[].match]
+ * @property {object[]} [trace] Tool calls made before answering, in order.
+ * @property {string} trace[].tool
+ * @property {unknown} trace[].args
+ * @property {string} [trace[].output]
+ * @property {string} [trace[].error]
+ * @property {number} trace[].durationMs
+ * @property {string} sessionId
+ */
+
+/**
+ * @typedef {object} ChatDocumentStreamBody
+ * @property {string} [text] Full document text.
+ * @property {string} [docId] Id of a stored document; takes precedence over `text`.
+ * @property {string} query
+ * @property {string} [mode]
+ * @property {string} [sessionId]
+ */
+
+/**
+ * @typedef {object} ListJobsResponseItem
+ * @property {string} id
+ * @property {string} kind The analysis the job runs, e.g. `criticize`.
+ * @property {'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'} status
+ * @property {string | null} error Why the job failed or was cancelled.
+ * @property {string} createdAt
+ * @property {string | null} startedAt
+ * @property {string | null} finishedAt
+ * @property {object} progress
+ * @property {number} progress.completed Chunks finished so far.
+ * @property {number | null} progress.total Chunks in the run; null until the first one finishes.
+ */
+
+/** @typedef {ListJobsResponseItem[]} ListJobsResponse */
+
+/**
+ * @typedef {object} GetJobResponse
+ * @property {string} id
+ * @property {string} kind The analysis the job runs, e.g. `criticize`.
+ * @property {'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'} status
+ * @property {string | null} error Why the job failed or was cancelled.
+ * @property {string} createdAt
+ * @property {string | null} startedAt
+ * @property {string | null} finishedAt
+ * @property {object} progress
+ * @property {number} progress.completed Chunks finished so far.
+ * @property {number | null} progress.total Chunks in the run; null until the first one finishes.
+ * @property {object[]} progress.chunks Each finished chunk's results, in chunk order.
+ * @property {number} progress.chunks[].index
+ * @property {number} progress.chunks[].total
+ * @property {unknown[]} progress.chunks[].results
+ * @property {unknown | null} result What the analyze route would have returned, once succeeded.
+ */
+
+/**
+ * @typedef {object} CancelJobResponse
+ * @property {string} id
+ * @property {string} kind The analysis the job runs, e.g. `criticize`.
+ * @property {'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'} status
+ * @property {string | null} error Why the job failed or was cancelled.
+ * @property {string} createdAt
+ * @property {string | null} startedAt
+ * @property {string | null} finishedAt
+ * @property {object} progress
+ * @property {number} progress.completed Chunks finished so far.
+ * @property {number | null} progress.total Chunks in the run; null until the first one finishes.
+ * @property {object[]} progress.chunks Each finished chunk's results, in chunk order.
+ * @property {number} progress.chunks[].index
+ * @property {number} progress.chunks[].total
+ * @property {unknown[]} progress.chunks[].results
+ * @property {unknown | null} result What the analyze route would have returned, once succeeded.
+ */
+
+// ─── Client ──────────────────────────────────────────────────────────
+
+/**
+ * @typedef {object} ErrorBody
+ * @property {string} error
+ * @property {string} requestId
+ * @property {unknown} [details] For validation errors, the failing fields.
+ */
+
+/** A non-2xx response; `message` is the server's `error`. */
+export class ApiError extends Error {
+  /**
+   * @param {number} status
+   * @param {ErrorBody} body
+   */
+  constructor(status, body) {
+    super(body.error || `API error ${status}`)
+    this.name = 'ApiError'
+    this.status = status
+    this.body = body
+  }
+}
+
+/**
+ * @typedef {object} ClientOptions
+ * @property {string} [baseUrl]
+ * @property {Record<string, string>} [headers] Sent with every request, e.g. `Authorization`.
+ * @property {typeof fetch} [fetch]
+ */
+
+/**
+ * @typedef {object} RequestOptions
+ * @property {AbortSignal} [signal]
+ * @property {Record<string, string>} [headers]
+ */
+
+/**
+ * @typedef {object} CallInit
+ * @property {AbortSignal} [signal]
+ * @property {Record<string, string>} [headers]
+ * @property {object} [query]
+ * @property {unknown} [json] JSON request body.
+ * @property {BodyInit} [raw] Raw request body (uploads).
+ */
+
+/** @param {ClientOptions} [options] */
+export function createClient(options = {}) {
+  const baseUrl = options.baseUrl ?? 'http://localhost:3000'
+  const fetchFn = options.fetch ?? fetch
+
+  /**
+   * @param {string} method
+   * @param {string} path
+   * @param {CallInit} [init]
+   */
+  async function request(method, path, init = {}) {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(init.query ?? {})) {
+      if (value !== undefined) params.set(key, String(value))
+    }
+    const search = params.toString() ? `?${params}` : ''
+    /** @type {Record<string, string>} */
+    const headers = { ...options.headers, ...init.headers }
+    if (init.json !== undefined) headers['Content-Type'] = 'application/json'
+
+    const res = await fetchFn(`${baseUrl}${path}${search}`, {
+      method,
+      headers,
+      body: init.json !== undefined ? JSON.stringify(init.json) : init.raw,
+      signal: init.signal,
+    })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({
+        error: res.statusText,
+        requestId: res.headers.get('X-Request-Id') ?? '',
+      }))
+      throw new ApiError(res.status, body)
+    }
+    return res
+  }
+
+  /**
+   * @param {string} method
+   * @param {string} path
+   * @param {CallInit} [init]
+   */
+  const requestJson = async (method, path, init) => (await request(method, path, init)).json()
+
+  /**
+   * @param {string} method
+   * @param {string} path
+   * @param {CallInit} [init]
+   */
+  const requestVoid = async (method, path, init) => {
+    await request(method, path, init)
+  }
+
+  return {
+    /**
+     * List stored documents. `GET /docs`
+     * @param {RequestOptions} [options]
+     * @returns {Promise<ListDocsResponse>}
+     */
+    listDocs(options) {
+      return requestJson('GET', '/docs', options)
+    },
+
+    /**
+     * Store a new document. `POST /docs`
+     * @param {CreateDocBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<CreateDocResponse>}
+     */
+    createDoc(body, options) {
+      return requestJson('POST', '/docs', { ...options, json: body })
+    },
+
+    /**
+     * Upload a .docx (raw bytes, or multipart with a `file` field). `POST /docs/import`
+     * @param {BodyInit} body
+     * @param {ImportDocxQuery} [query]
+     * @param {RequestOptions} [options]
+     * @returns {Promise<ImportDocxResponse>}
+     */
+    importDocx(body, query, options) {
+      return requestJson('POST', '/docs/import', { ...options, raw: body, query })
+    },
+
+    /**
+     * Build a .docx with review comments and tracked changes. `POST /docs/export`
+     * @param {ExportDocxBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<Response>}
+     */
+    exportDocx(body, options) {
+      return request('POST', '/docs/export', { ...options, json: body })
+    },
+
+    /**
+     * Fetch a stored document. `GET /docs/{id}`
+     * @param {string} id
+     * @param {RequestOptions} [options]
+     * @returns {Promise<GetDocResponse>}
+     */
+    getDoc(id, options) {
+      return requestJson('GET', `/docs/${encodeURIComponent(id)}`, options)
+    },
+
+    /**
+     * Update a stored document's title, text or structure. `PUT /docs/{id}`
+     * @param {string} id
+     * @param {UpdateDocBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<UpdateDocResponse>}
+     */
+    updateDoc(id, body, options) {
+      return requestJson('PUT', `/docs/${encodeURIComponent(id)}`, { ...options, json: body })
+    },
+
+    /**
+     * Delete a stored document. `DELETE /docs/{id}`
+     * @param {string} id
+     * @param {RequestOptions} [options]
+     * @returns {Promise<void>}
+     */
+    deleteDoc(id, options) {
+      return requestVoid('DELETE', `/docs/${encodeURIComponent(id)}`, options)
+    },
+
+    /**
+     * Chunk a document; returns stats and chunks. `POST /analyze/chunk`
+     * @param {AnalyzeChunkBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<AnalyzeChunkResponse>}
+     */
+    analyzeChunk(body, options) {
+      return requestJson('POST', '/analyze/chunk', { ...options, json: body })
+    },
+
+    /**
+     * Word, character and paragraph counts. `POST /analyze/stats`
+     * @param {AnalyzeStatsBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<AnalyzeStatsResponse>}
+     */
+    analyzeStats(body, options) {
+      return requestJson('POST', '/analyze/stats', { ...options, json: body })
+    },
+
+    /**
+     * Sync the document into the vector store, then search it. `POST /analyze/query`
+     * @param {QueryDocumentBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<QueryDocumentResponse>}
+     */
+    queryDocument(body, options) {
+      return requestJson('POST', '/analyze/query', { ...options, json: body })
+    },
+
+    /**
+     * Headings, outline and section summaries. `POST /analyze/hierarchy`
+     * @param {AnalyzeHierarchyBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<AnalyzeHierarchyResponse>}
+     */
+    analyzeHierarchy(body, options) {
+      return requestJson('POST', '/analyze/hierarchy', { ...options, json: body })
+    },
+
+    /**
+     * The configured review profiles and the default one. `GET /analyze/profiles`
+     * @param {RequestOptions} [options]
+     * @returns {Promise<ListReviewProfilesResponse>}
+     */
+    listReviewProfiles(options) {
+      return requestJson('GET', '/analyze/profiles', options)
+    },
+
+    /**
+     * Review the document against a review profile. `POST /analyze/criticize`
+     * @param {CriticizeDocumentBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<CriticizeDocumentResponse>}
+     */
+    criticizeDocument(body, options) {
+      return requestJson('POST', '/analyze/criticize', { ...options, json: body })
+    },
+
+    /**
+     * Suggested text changes, with conflicting ones set apart. `POST /analyze/suggest`
+     * @param {SuggestChangesDocumentBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<SuggestChangesDocumentResponse>}
+     */
+    suggestChangesDocument(body, options) {
+      return requestJson('POST', '/analyze/suggest', { ...options, json: body })
+    },
+
+    /**
+     * `/criticize` as Server-Sent Events. `POST /analyze/criticize/stream`
+     * @param {CriticizeDocumentStreamBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<Response>}
+     */
+    criticizeDocumentStream(body, options) {
+      return request('POST', '/analyze/criticize/stream', { ...options, json: body })
+    },
+
+    /**
+     * `/suggest` as Server-Sent Events. `POST /analyze/suggest/stream`
+     * @param {SuggestChangesDocumentStreamBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<Response>}
+     */
+    suggestChangesDocumentStream(body, options) {
+      return request('POST', '/analyze/suggest/stream', { ...options, json: body })
+    },
+
+    /**
+     * Map-reduce summary of the document. `POST /analyze/summarize`
+     * @param {SummarizeDocumentBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<SummarizeDocumentResponse>}
+     */
+    summarizeDocument(body, options) {
+      return requestJson('POST', '/analyze/summarize', { ...options, json: body })
+    },
+
+    /**
+     * `/summarize` as Server-Sent Events. `POST /analyze/summarize/stream`
+     * @param {SummarizeDocumentStreamBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<Response>}
+     */
+    summarizeDocumentStream(body, options) {
+      return request('POST', '/analyze/summarize/stream', { ...options, json: body })
+    },
+
+    /**
+     * Queue `/criticize` as a background job. `POST /analyze/criticize/jobs`
+     * @param {CriticizeDocumentJobBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<CriticizeDocumentJobResponse>}
+     */
+    criticizeDocumentJob(body, options) {
+      return requestJson('POST', '/analyze/criticize/jobs', { ...options, json: body })
+    },
+
+    /**
+     * Queue `/suggest` as a background job. `POST /analyze/suggest/jobs`
+     * @param {SuggestChangesDocumentJobBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<SuggestChangesDocumentJobResponse>}
+     */
+    suggestChangesDocumentJob(body, options) {
+      return requestJson('POST', '/analyze/suggest/jobs', { ...options, json: body })
+    },
+
+    /**
+     * Queue `/summarize` as a background job. `POST /analyze/summarize/jobs`
+     * @param {SummarizeDocumentJobBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<SummarizeDocumentJobResponse>}
+     */
+    summarizeDocumentJob(body, options) {
+      return requestJson('POST', '/analyze/summarize/jobs', { ...options, json: body })
+    },
+
+    /**
+     * Apply accepted suggestions; returns the new text and a diff. `POST /analyze/apply`
+     * @param {ApplySuggestionsBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<ApplySuggestionsResponse>}
+     */
+    applySuggestions(body, options) {
+      return requestJson('POST', '/analyze/apply', { ...options, json: body })
+    },
+
+    /**
+     * One chat turn about the document. `POST /analyze/chat`
+     * @param {ChatDocumentBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<ChatDocumentResponse>}
+     */
+    chatDocument(body, options) {
+      return requestJson('POST', '/analyze/chat', { ...options, json: body })
+    },
+
+    /**
+     * `/chat` as Server-Sent Events. `POST /analyze/chat/stream`
+     * @param {ChatDocumentStreamBody} body
+     * @param {RequestOptions} [options]
+     * @returns {Promise<Response>}
+     */
+    chatDocumentStream(body, options) {
+      return request('POST', '/analyze/chat/stream', { ...options, json: body })
+    },
+
+    /**
+     * Forget a chat session. `DELETE /analyze/chat/{sessionId}`
+     * @param {string} sessionId
+     * @param {RequestOptions} [options]
+     * @returns {Promise<void>}
+     */
+    deleteChatSession(sessionId, options) {
+      return requestVoid('DELETE', `/analyze/chat/${encodeURIComponent(sessionId)}`, options)
+    },
+
+    /**
+     * Recent jobs, newest first. `GET /jobs`
+     * @param {RequestOptions} [options]
+     * @returns {Promise<ListJobsResponse>}
+     */
+    listJobs(options) {
+      return requestJson('GET', '/jobs', options)
+    },
+
+    /**
+     * A job's status, per-chunk progress and result. `GET /jobs/{id}`
+     * @param {string} id
+     * @param {RequestOptions} [options]
+     * @returns {Promise<GetJobResponse>}
+     */
+    getJob(id, options) {
+      return requestJson('GET', `/jobs/${encodeURIComponent(id)}`, options)
+    },
+
+    /**
+     * Cancel a queued or running job. `POST /jobs/{id}/cancel`
+     * @param {string} id
+     * @param {RequestOptions} [options]
+     * @returns {Promise<CancelJobResponse>}
+     */
+    cancelJob(id, options) {
+      return requestJson('POST', `/jobs/${encodeURIComponent(id)}/cancel`, options)
+    },
+
+    /**
+     * This API's OpenAPI description. `GET /openapi.json`
+     * @param {RequestOptions} [options]
+     * @returns {Promise<unknown>}
+     */
+    getOpenApi(options) {
+      return requestJson('GET', '/openapi.json', options)
+    },
+  }
+}
+
+/** @typedef {ReturnType<typeof createClient>} ApiClient */
+
+/** A client for the default local backend. */
+export const api = createClient()
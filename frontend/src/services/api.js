@@ -1,41 +1,64 @@
 /**
  * Thin API client for the backend analyze endpoints.
  *
- * All methods throw on non-2xx responses.
+ * Wraps the generated, typed client in `./api-client` (regenerate it with
+ * `bun run generate:client` in backend/ when routes change); request and
+ * response shapes live there.
+ *
+ * Requests carry the backend API key, which is never built into the
+ * bundle: the first `401` asks the user for it, and it's kept in
+ * `sessionStorage` for the rest of the tab's session.
+ *
+ * All methods throw an `ApiError` on non-2xx responses.
  */
 
-const BASE_URL = 'http://localhost:3000'
-
-async function post(path, body) {
-  const res = await fetch(`${BASE_URL}${path}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  })
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({ error: res.statusText }))
-    throw new Error(err.error || `API error ${res.status}`)
+import { createClient } from './api-client'
+
+/** Where the backend API key is kept for the current tab. */
+const API_KEY_STORAGE = 'llm-docx:api-key'
+
+/**
+ * `fetch` that sends the stored API key. On a `401` it asks for a key
+ * and, if one is entered, stores it and retries the request once.
+ */
+async function fetchWithApiKey(input, init = {}) {
+  const send = () => {
+    const key = sessionStorage.getItem(API_KEY_STORAGE)
+    const headers = key ? { ...init.headers, Authorization: `Bearer ${key}` } : init.headers
+    return fetch(input, { ...init, headers })
   }
-  return res.json()
+
+  const res = await send()
+  if (res.status !== 401) return res
+
+  const key = window.prompt('Backend API key (see backend/README.md):')?.trim()
+  if (!key) return res
+  sessionStorage.setItem(API_KEY_STORAGE, key)
+  return send()
 }
 
+const api = createClient({ fetch: fetchWithApiKey })
+
+export { ApiError } from './api-client'
+
 /**
  * Chunk a document and return full analysis (stats + chunks).
  * @param {string} text
- * @param {object} [options]
+ * @param {object} [options] Chunking (`maxChunkSize`, `overlap`) and hierarchy options
  * @param {boolean} [useHierarchy] Enable structure-aware chunking
  */
 export async function analyzeChunk(text, options, useHierarchy = false) {
-  return post('/analyze/chunk', { text, options, useHierarchy })
+  return api.analyzeChunk({ text, options, useHierarchy })
 }
 
 /**
  * Extract the hierarchical structure (headings, outline, summaries).
  * @param {string} text
- * @param {object} [options] HierarchyOptions
+ * @param {object} [options] `similarityThreshold` (0–1), `minSectionSize`,
+ *   `docSummaryMaxSentences`, `sectionSummaryMaxSentences`, `maxOutlineDepth`
  */
 export async function analyzeHierarchy(text, options) {
-  return post('/analyze/hierarchy', { text, options })
+  return api.analyzeHierarchy({ text, options })
 }
 
 /**
@@ -43,49 +66,94 @@ export async function analyzeHierarchy(text, options) {
  * @param {string} text
  */
 export async function analyzeStats(text) {
-  return post('/analyze/stats', { text })
+  return api.analyzeStats({ text })
 }
 
 /**
  * Sync the document into VectorDB then run a semantic search.
+ * Resolves to `{ results: [{ record, similarity }], hierarchy }`, with
+ * `similarity` from 0 to 1: cosine similarity for vector and hybrid
+ * search, `score / (score + 2)` of the BM25 score for keyword search.
  *
  * This is the primary method used before every question — the backend
  * will skip re-embedding if the doc hasn't changed.
  *
  * @param {string} text      Full document text
  * @param {string} question  User's question
- * @param {object} [options] Chunking + limit options
+ * @param {object} [options] Chunking + limit options, plus:
+ *   - `mode`: 'vector' (default), 'keyword' (BM25 full-text) or 'hybrid' (both, rank-fused)
+ *   - `filter`: { sectionPath, sectionTitle, range: { start, end } }
+ *   - `minSimilarity`: drop results whose `similarity` is below it (0–1),
+ *     before `limit` is applied
  */
 export async function queryDocument(text, question, options) {
-  return post('/analyze/query', { text, question, options })
+  return api.queryDocument({ text, question, options })
 }
 
 /**
  * Generates AI criticisms for the document using a sliding window.
+ * Each criticism carries a `category` and `severity` from the review profile.
  *
  * @param {string} text Full document text
+ * @param {string} [profile] Review profile name (see `listReviewProfiles`)
+ */
+export async function criticizeDocument(text, profile) {
+  return api.criticizeDocument({ text, profile })
+}
+
+/**
+ * Lists the configured review profiles and the default one.
  */
-export async function criticizeDocument(text) {
-  return post('/analyze/criticize', { text })
+export async function listReviewProfiles() {
+  return api.listReviewProfiles()
 }
 
 /**
  * Generates AI textual change suggestions for the document using a sliding window.
+ * Resolves to `{ suggestions, conflicts }`; conflicts group overlapping
+ * suggestions that disagree and were not applied.
  *
  * @param {string} text Full document text
  */
 export async function suggestChangesDocument(text) {
-  return post('/analyze/suggest', { text })
+  return api.suggestChangesDocument({ text })
+}
+
+/**
+ * Applies accepted suggestions or edits server-side.
+ * Resolves to `{ text, applied, rejected, diff }`; each rejected item has a
+ * `code` (stale, not-found, ambiguous, overlap, invalid) and a `reason`.
+ *
+ * @param {string} text Full document text
+ * @param {Array} suggestions Accepted `{ quote, suggestion, start?, end? }` items
+ * @param {boolean} [allOrNothing] Apply none of them if any is rejected
+ */
+export async function applySuggestions(text, suggestions, allOrNothing = false) {
+  return api.applySuggestions({ text, suggestions, allOrNothing })
+}
+
+/**
+ * Generates an LLM summary of the document (map-reduce, one map call per section).
+ *
+ * @param {string} text Full document text
+ * @param {object} [options] { length: 'short'|'medium'|'long', audience, format: 'executive'|'bullets'|'per-section' }
+ */
+export async function summarizeDocument(text, options) {
+  return api.summarizeDocument({ text, options })
 }
 
 /**
  * Send a generic AI chat request contextualized by the document.
  * Returns a structured response containing the interpreted action.
  *
+ * The response carries a `sessionId`; pass it back on follow-up turns so
+ * the AI sees the earlier conversation.
+ *
  * @param {string} text Full document text
  * @param {string} query User query
  * @param {string} mode Chat, Comment, Suggest, or Edit
+ * @param {string} [sessionId] Session to continue, from a previous response
  */
-export async function chatDocument(text, query, mode) {
-  return post('/analyze/chat', { text, query, mode })
+export async function chatDocument(text, query, mode, sessionId) {
+  return api.chatDocument({ text, query, mode, sessionId })
 }
@@ -153,12 +153,13 @@ export const useDocAnalysisStore = defineStore('doc-analysis', () => {
    * @param {string} text Full document text
    * @param {string} query User query
    * @param {string} mode Selected mode context
+   * @param {string} [sessionId] Chat session to continue
    */
-  async function chat(text, query, mode) {
+  async function chat(text, query, mode, sessionId) {
     loading.value = true
     error.value = null
     try {
-      return await chatDocument(text, query, mode)
+      return await chatDocument(text, query, mode, sessionId)
     } catch (err) {
       error.value = err.message
       return null